@@ -5,14 +5,35 @@ import { useSession } from "next-auth/react"
 import type { Session } from "next-auth"
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { ToastAction } from '@/components/ui/toast'
 import { useToast } from '@/hooks/use-toast'
 import Link from 'next/link'
 import confetti from 'canvas-confetti'
 import ProfileCard from '@/app/components/profile-card'
 import { motion, AnimatePresence } from 'framer-motion'
-import { isAdmin } from '@/lib/auth'
+import { hasPermission } from '@/lib/permissions'
+import { getApplicationType, getReviewableTypes } from '@/lib/application-types'
+import { applicationConfig, type CannedReason, type ReviewStageConfig } from '@/lib/config'
+import type { MessagePreview } from '@/lib/decisions'
+import { getApplicationStage, getNextStages, getReviewStages } from '@/lib/review-stages'
+import type { ApplicationClaim, BlacklistMatch, DecisionRecord, DuplicateMatch, StaffNote, StageTransition, Vote } from '@/lib/storage/types'
+import { getActiveClaim } from '@/lib/claims'
+import { isVotingEnabled } from '@/lib/voting'
+import StageHistory from '@/app/components/stage-history'
+import DecisionHistory from '@/app/components/decision-history'
+import DuplicateWarnings from '@/app/components/duplicate-warnings'
+import BlacklistWarnings from '@/app/components/blacklist-warnings'
+import VoteTally from '@/app/components/vote-tally'
+import StaffNotes from '@/app/components/staff-notes'
+import ConfirmDialog from '@/app/components/confirm-dialog'
+import EmbedPreview from '@/app/components/embed-preview'
+import ApplicationAnswers from '@/app/components/application-answers'
+import ApplicationTypeFilter from '@/app/components/application-type-filter'
 
 type DiscordUser = {
   id: string
@@ -30,29 +51,77 @@ interface ExtendedSession extends Session {
   discord: DiscordUser
 }
 
+// Form answers sit next to the fields below, keyed by field name.
 type Application = {
   id: string
   timestamp: string
-  username: string
-  age: number
-  steamId: string
-  cfxAccount: string
-  experience: string
-  character: string
+  applicationType?: string
   discord: DiscordUser
   status?: 'pending' | 'approved' | 'denied'
+  stage?: string
+  stageHistory?: StageTransition[]
+  votes?: Vote[]
+  claim?: ApplicationClaim
+  notes?: StaffNote[]
+  decisionHistory?: DecisionRecord[]
+  duplicates?: DuplicateMatch[]
+  blacklistMatches?: BlacklistMatch[]
+  [answer: string]: unknown
+}
+
+// Each card keeps its own reason: a canned reason, by label, and/or custom text.
+type ReasonDraft = {
+  canned: string
+  custom: string
+}
+
+type PendingTransition = {
+  applicationId: string
+  username: string
+  stage: ReviewStageConfig
+  reason: string
+  cannedReason?: string
+  preview: MessagePreview
 }
 
+const emptyDraft: ReasonDraft = { canned: '', custom: '' }
+
+// A canned reason only applies to the decision it is listed under, so a
+// denial reason never goes out with an approval.
+const findCannedReason = (label: string, outcome: ReviewStageConfig['outcome']) =>
+  outcome ? applicationConfig.cannedReasons[outcome].find((canned) => canned.label === label) : undefined
+
+const getCannedReasonOutcome = (label: string) =>
+  (['approved', 'denied'] as const).find((outcome) => findCannedReason(label, outcome))
+
+// Denial reasons show how they affect reapplying.
+const getDenialReasonLabel = ({ label, cooldownDays, permanentBan }: CannedReason) => {
+  if (permanentBan) return `${label} (permanent ban)`
+  if (cooldownDays === undefined) return label
+  return `${label} (reapply in ${cooldownDays} day${cooldownDays === 1 ? '' : 's'})`
+}
+
+const getDraftReason = (draft: ReasonDraft = emptyDraft, outcome: ReviewStageConfig['outcome']) =>
+  [findCannedReason(draft.canned, outcome)?.text, draft.custom.trim()].filter(Boolean).join('\n\n')
+
+const getStageActionLabel = (stage: ReviewStageConfig) =>
+  stage.outcome === 'approved' ? 'Approve' : stage.outcome === 'denied' ? 'Deny' : `Move to ${stage.label}`
+
 export default function AdminApplications() {
   const { data: session, status } = useSession()
   const [applications, setApplications] = useState<Application[]>([])
-  const [reason, setReason] = useState('')
+  const [drafts, setDrafts] = useState<Record<string, ReasonDraft>>({})
+  const [confirmation, setConfirmation] = useState<PendingTransition | null>(null)
+  const [isConfirming, setIsConfirming] = useState(false)
+  const [overrideIds, setOverrideIds] = useState<string[]>([])
+  const [assignees, setAssignees] = useState<Record<string, string>>({})
+  const [typeFilter, setTypeFilter] = useState<string | null>(null)
   const { toast } = useToast()
   const router = useRouter()
 
   const fetchApplications = useCallback(async () => {
     try {
-      const response = await fetch('/api/applications')
+      const response = await fetch(typeFilter ? `/api/applications?type=${typeFilter}` : '/api/applications')
       if (response.ok) {
         const data = await response.json()
         setApplications(data)
@@ -67,24 +136,175 @@ export default function AdminApplications() {
         variant: 'destructive',
       })
     }
-  }, [toast])
+  }, [toast, typeFilter])
 
   useEffect(() => {
-    if (status === 'unauthenticated' || ((session as ExtendedSession)?.discord && !isAdmin((session as ExtendedSession).discord.id))) {
+    if (status === 'unauthenticated' || ((session as ExtendedSession)?.discord && !hasPermission(session?.staffRole, 'viewApplications'))) {
       router.push('/')
-    } else if (status === 'authenticated' && isAdmin((session as ExtendedSession)?.discord?.id)) {
+    } else if (status === 'authenticated' && hasPermission(session?.staffRole, 'viewApplications')) {
       fetchApplications()
     }
   }, [status, session, router, fetchApplications])
 
-  const handleStatusUpdate = async (applicationId: string, newStatus: 'approved' | 'denied') => {
+  const handleClaim = async (applicationId: string, action: 'claim' | 'takeOver' | 'release' | 'reassign') => {
+    try {
+      const response = await fetch(`/api/applications/${applicationId}/claim`, {
+        method: action === 'release' ? 'DELETE' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: action === 'release' ? undefined : JSON.stringify({
+          reassign: action === 'takeOver',
+          assignee: action === 'reassign' ? assignees[applicationId]?.trim() : undefined,
+        }),
+        credentials: 'include',
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update claim')
+      }
+
+      toast({
+        title: action === 'release' ? 'Claim Released' : 'Application Claimed',
+        description: data.claim
+          ? `Claimed by ${data.claim.by.username} until ${new Date(data.claim.expiresAt).toLocaleTimeString()}.`
+          : 'Other reviewers can now work on this application.',
+      })
+      setAssignees((current) => ({ ...current, [applicationId]: '' }))
+      fetchApplications()
+    } catch (error) {
+      console.error('Error updating claim:', error)
+      toast({
+        title: 'Claim Error',
+        description: error instanceof Error ? error.message : 'There was an error updating the claim.',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const updateDraft = (applicationId: string, update: Partial<ReasonDraft>) => {
+    setDrafts((current) => ({ ...current, [applicationId]: { ...emptyDraft, ...current[applicationId], ...update } }))
+  }
+
+  const clearDraft = (applicationId: string) => {
+    setDrafts((current) => Object.fromEntries(Object.entries(current).filter(([id]) => id !== applicationId)))
+  }
+
+  const handleUndo = async (applicationId: string) => {
+    try {
+      const response = await fetch(`/api/applications/${applicationId}/undo`, {
+        method: 'POST',
+        credentials: 'include',
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to undo decision')
+      }
+
+      toast({
+        title: 'Decision Undone',
+        description: 'The application is back in review and the applicant was not notified.',
+      })
+      fetchApplications()
+    } catch (error) {
+      console.error('Error undoing decision:', error)
+      toast({
+        title: 'Undo Error',
+        description: error instanceof Error ? error.message : 'There was an error undoing the decision.',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  // Keeps the decision toast open, with an Undo button, for as long as the
+  // decision can be undone.
+  const getUndoProps = (applicationId: string, undoUntil?: string) => {
+    if (!undoUntil) return {}
+    return {
+      duration: Math.max(Date.parse(undoUntil) - Date.now(), 0),
+      action: (
+        <ToastAction altText="Undo decision" onClick={() => handleUndo(applicationId)}>
+          Undo
+        </ToastAction>
+      ),
+    }
+  }
+
+  const handleVote = async (applicationId: string, decision: 'approved' | 'denied') => {
+    try {
+      const response = await fetch(`/api/applications/${applicationId}/votes`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ decision, comment: getDraftReason(drafts[applicationId], decision) }),
+        credentials: 'include',
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to record vote')
+      }
+
+      toast({
+        title: data.decided ? `Application ${data.tally.outcome === 'approved' ? 'Approved' : 'Denied'}` : 'Vote Recorded',
+        description: data.message,
+        ...getUndoProps(applicationId, data.undoUntil),
+      })
+      fetchApplications()
+      clearDraft(applicationId)
+    } catch (error) {
+      console.error('Error recording vote:', error)
+      toast({
+        title: 'Vote Error',
+        description: error instanceof Error ? error.message : 'There was an error recording your vote.',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  // Renders the DM the move would send and asks for confirmation first.
+  const requestTransition = async (app: Application, stage: ReviewStageConfig) => {
+    const reason = getDraftReason(drafts[app.id], stage.outcome)
+    const cannedReason = findCannedReason(drafts[app.id]?.canned ?? '', stage.outcome)?.label
+    try {
+      const response = await fetch(`/api/applications/${app.id}/preview`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ stage: stage.id, reason, cannedReason }),
+        credentials: 'include',
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to preview the message')
+      }
+
+      setConfirmation({ applicationId: app.id, username: app.discord.username, stage, reason, cannedReason, preview: data })
+    } catch (error) {
+      console.error('Error previewing message:', error)
+      toast({
+        title: 'Preview Error',
+        description: error instanceof Error ? error.message : 'There was an error previewing the message.',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const closeConfirmation = useCallback(() => setConfirmation(null), [])
+
+  const handleTransition = async ({ applicationId, stage, reason, cannedReason }: PendingTransition) => {
     try {
       const response = await fetch(`/api/applications/${applicationId}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ status: newStatus, reason }),
+        body: JSON.stringify({ stage: stage.id, reason, cannedReason, override: overrideIds.includes(applicationId) }),
         credentials: 'include',
       })
 
@@ -94,16 +314,27 @@ export default function AdminApplications() {
       }
 
       const data = await response.json()
+      const notification = data.discordMessageSent === null
+        ? ''
+        : data.undoUntil
+          ? ' The Discord notification goes out in a few seconds unless you undo.'
+          : data.discordMessageSent
+            ? ' The applicant has been notified via Discord.'
+            : ' Discord notification has been queued for delivery.'
       toast({
-        title: newStatus === 'approved' ? 'Application Approved' : 'Application Denied',
-        description: data.discordMessageSent
-          ? `The application has been ${newStatus} and moved to the archive. The applicant has been notified via Discord.`
-          : `The application has been ${newStatus} and moved to the archive. Discord notification has been queued for delivery.`,
+        title: stage.outcome === 'approved'
+          ? 'Application Approved'
+          : stage.outcome === 'denied' ? 'Application Denied' : `Moved to ${stage.label}`,
+        description: stage.outcome
+          ? `The application has been ${stage.outcome} and moved to the archive.${notification}`
+          : `The application is now in ${stage.label}.${notification}`,
+        ...getUndoProps(applicationId, data.undoUntil),
       })
       fetchApplications()
-      setReason('')
+      clearDraft(applicationId)
+      setOverrideIds((current) => current.filter((id) => id !== applicationId))
 
-      if (newStatus === 'approved') {
+      if (stage.outcome === 'approved') {
         confetti({
           particleCount: 80,
           spread: 60,
@@ -113,7 +344,7 @@ export default function AdminApplications() {
           gravity: 0.8,
           scalar: 0.8
         })
-      } else {
+      } else if (stage.outcome === 'denied') {
         const pulseEffect = document.createElement('div')
         pulseEffect.style.cssText = `
           position: fixed;
@@ -153,10 +384,24 @@ export default function AdminApplications() {
     }
   }
 
-  if (status === 'loading' || !(session as ExtendedSession)?.discord || !isAdmin((session as ExtendedSession).discord.id)) {
+  if (status === 'loading' || !(session as ExtendedSession)?.discord || !hasPermission(session?.staffRole, 'viewApplications')) {
     return null
   }
 
+  const canDecide = hasPermission(session?.staffRole, 'decide')
+  const votingEnabled = isVotingEnabled()
+  const canReassign = hasPermission(session?.staffRole, 'reassignClaims')
+  const currentUserId = (session as ExtendedSession).discord.id
+  const stageGroups = getReviewStages()
+    .filter((stage) => !stage.outcome)
+    .map((stage) => ({
+      stage,
+      applications: applications.filter((app) => getApplicationStage(app).id === stage.id),
+    }))
+    .filter((group) => group.applications.length > 0)
+  const canViewPii = hasPermission(session?.staffRole, 'viewPii')
+  const showTypes = getReviewableTypes(session?.staffRole).length > 1
+
   return (
     <motion.div 
       initial={{ opacity: 0 }} 
@@ -170,6 +415,46 @@ export default function AdminApplications() {
           <p className="text-muted-foreground">Review and manage whitelist applications</p>
         </div>
         <div className="flex gap-2">
+          {hasPermission(session?.staffRole, 'editConfig') && (
+            <Link href="/admin/notifications">
+              <Button variant="outline" size="sm">
+                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+                </svg>
+                Notifications
+              </Button>
+            </Link>
+          )}
+          {hasPermission(session?.staffRole, 'editConfig') && (
+            <Link href="/admin/templates">
+              <Button variant="outline" size="sm">
+                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                </svg>
+                Templates
+              </Button>
+            </Link>
+          )}
+          {hasPermission(session?.staffRole, 'editConfig') && (
+            <Link href="/admin/intake">
+              <Button variant="outline" size="sm">
+                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+                Intake
+              </Button>
+            </Link>
+          )}
+          {hasPermission(session?.staffRole, 'manageBlacklist') && (
+            <Link href="/admin/blacklist">
+              <Button variant="outline" size="sm">
+                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+                </svg>
+                Blacklist
+              </Button>
+            </Link>
+          )}
           <Link href="/admin/archive">
             <Button variant="outline" size="sm">
               <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -188,6 +473,8 @@ export default function AdminApplications() {
           </Link>
         </div>
       </div>
+
+      <ApplicationTypeFilter role={session?.staffRole} value={typeFilter} onChange={setTypeFilter} />
       
       {applications.length === 0 ? (
         <Card className="border-dashed">
@@ -200,112 +487,224 @@ export default function AdminApplications() {
           </CardContent>
         </Card>
       ) : (
-        <div className="space-y-6">
-          <AnimatePresence>
-            {applications.map((app, index) => (
-              <motion.div
-                key={app.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: -20 }}
-                transition={{ duration: 0.3, delay: index * 0.05 }}
-              >
-                <Card className="overflow-hidden border-border/50 hover:border-border transition-colors">
-                  <CardHeader className="border-b border-border/50 bg-muted/20">
-                    <div className="flex items-start justify-between">
-                      <div>
-                        <CardTitle className="text-2xl mb-1">{app.username}</CardTitle>
-                        <p className="text-sm text-muted-foreground">
-                          Submitted {new Date(app.timestamp).toLocaleDateString('en-US', { 
-                            month: 'short', 
-                            day: 'numeric', 
-                            year: 'numeric',
-                            hour: '2-digit',
-                            minute: '2-digit'
-                          })}
-                        </p>
-                      </div>
-                    </div>
-                  </CardHeader>
-                  <CardContent className="p-6">
-                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-                      <div className="lg:col-span-1">
-                        <ProfileCard profile={app.discord} />
-                      </div>
-                      <div className="lg:col-span-2 space-y-6">
-                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                          <div className="space-y-1">
-                            <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Age</p>
-                            <p className="text-base font-medium">{app.age} years old</p>
-                          </div>
-                          <div className="space-y-1">
-                            <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Steam ID</p>
-                            <p className="text-base font-mono text-sm">{app.steamId}</p>
-                          </div>
-                          <div className="space-y-1 sm:col-span-2">
-                            <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">CFX Account</p>
-                            <a href={app.cfxAccount} target="_blank" rel="noopener noreferrer" className="text-base text-primary hover:underline break-all">
-                              {app.cfxAccount}
-                            </a>
-                          </div>
-                        </div>
-                        
-                        <div className="space-y-3">
-                          <div>
-                            <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">Roleplay Experience</p>
-                            <div className="bg-muted/30 rounded-lg p-4 border border-border/30">
-                              <p className="text-sm leading-relaxed whitespace-pre-wrap break-words">{app.experience}</p>
+        <div className="space-y-10">
+          {stageGroups.map(({ stage, applications: stageApplications }) => (
+            <section key={stage.id} className="space-y-6">
+              <h2 className="text-2xl font-semibold tracking-tight">
+                {stage.label} <span className="text-muted-foreground text-lg">({stageApplications.length})</span>
+              </h2>
+              <AnimatePresence>
+                {stageApplications.map((app, index) => {
+                  const claim = getActiveClaim(app)
+                  const claimedByOther = !!claim && claim.by.id !== currentUserId
+                  const blocked = claimedByOther && !overrideIds.includes(app.id)
+                  const nextStages = getNextStages(getApplicationStage(app))
+                  const cannedOutcome = getCannedReasonOutcome(drafts[app.id]?.canned ?? '')
+
+                  return (
+                    <motion.div
+                      key={app.id}
+                      id={app.id}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -20 }}
+                      transition={{ duration: 0.3, delay: index * 0.05 }}
+                    >
+                      <Card className="overflow-hidden border-border/50 hover:border-border transition-colors">
+                        <CardHeader className="border-b border-border/50 bg-muted/20">
+                          <div className="flex items-start justify-between">
+                            <div>
+                              <CardTitle className="text-2xl mb-1">{app.discord.username}</CardTitle>
+                              {showTypes && (
+                                <Badge variant="outline" className="mb-1">{getApplicationType(app).label}</Badge>
+                              )}
+                              <p className="text-sm text-muted-foreground">
+                                Submitted {new Date(app.timestamp).toLocaleDateString('en-US', { 
+                                  month: 'short', 
+                                  day: 'numeric', 
+                                  year: 'numeric',
+                                  hour: '2-digit',
+                                  minute: '2-digit'
+                                })}
+                              </p>
                             </div>
-                          </div>
-                          
-                          <div>
-                            <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">Character Backstory</p>
-                            <div className="bg-muted/30 rounded-lg p-4 border border-border/30">
-                              <p className="text-sm leading-relaxed whitespace-pre-wrap break-words">{app.character}</p>
+                            <div className="flex items-center gap-3">
+                              {claim && (
+                                <div className="flex items-center gap-2">
+                                  <Avatar className="h-8 w-8">
+                                    {claim.avatar && (
+                                      <AvatarImage src={`https://cdn.discordapp.com/avatars/${claim.by.id}/${claim.avatar}.png`} alt={claim.by.username} />
+                                    )}
+                                    <AvatarFallback>{claim.by.username.slice(0, 2).toUpperCase()}</AvatarFallback>
+                                  </Avatar>
+                                  <div className="text-sm">
+                                    <p className="font-medium">Claimed by {claim.by.id === currentUserId ? 'you' : claim.by.username}</p>
+                                    <p className="text-muted-foreground">until {new Date(claim.expiresAt).toLocaleTimeString()}</p>
+                                  </div>
+                                </div>
+                              )}
+                              {canDecide && !claimedByOther && (
+                                <Button variant="outline" size="sm" onClick={() => handleClaim(app.id, 'claim')}>
+                                  {claim ? 'Renew' : 'Claim'}
+                                </Button>
+                              )}
+                              {canDecide && claim && !claimedByOther && (
+                                <Button variant="ghost" size="sm" onClick={() => handleClaim(app.id, 'release')}>
+                                  Release
+                                </Button>
+                              )}
+                              {canReassign && claimedByOther && (
+                                <>
+                                  <Button variant="outline" size="sm" onClick={() => handleClaim(app.id, 'takeOver')}>
+                                    Take Over
+                                  </Button>
+                                  <Button variant="ghost" size="sm" onClick={() => handleClaim(app.id, 'release')}>
+                                    Release
+                                  </Button>
+                                </>
+                              )}
                             </div>
                           </div>
-                        </div>
-                        
-                        <div className="pt-4 space-y-3 border-t border-border/50">
-                          <Input
-                            placeholder="Optional reason for approval/denial..."
-                            value={reason}
-                            onChange={(e) => setReason(e.target.value)}
-                            className="bg-background"
-                          />
-                          <div className="flex gap-3">
-                            <Button 
-                              onClick={() => handleStatusUpdate(app.id, 'approved')} 
-                              className="flex-1 bg-green-600 hover:bg-green-700 text-white"
-                              size="lg"
-                            >
-                              <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                              </svg>
-                              Approve
-                            </Button>
-                            <Button 
-                              onClick={() => handleStatusUpdate(app.id, 'denied')} 
-                              variant="destructive"
-                              className="flex-1"
-                              size="lg"
-                            >
-                              <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                              </svg>
-                              Deny
-                            </Button>
+                        </CardHeader>
+                        <CardContent className="p-6">
+                          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                            <div className="lg:col-span-1">
+                              <ProfileCard profile={app.discord} />
+                            </div>
+                            <div className="lg:col-span-2 space-y-6">
+                              <BlacklistWarnings matches={app.blacklistMatches} />
+                              <DuplicateWarnings duplicates={app.duplicates} />
+
+                              <ApplicationAnswers application={app} canViewPii={canViewPii} />
+
+                              <VoteTally votes={app.votes} />
+                              <StageHistory history={app.stageHistory} />
+                              <DecisionHistory history={app.decisionHistory} />
+                              <StaffNotes
+                                applicationId={app.id}
+                                notes={app.notes}
+                                currentUser={(session as ExtendedSession).discord}
+                                canWrite={canDecide}
+                                onChange={fetchApplications}
+                              />
+
+                              {canDecide && (
+                                <div className="pt-4 space-y-3 border-t border-border/50">
+                                  <select
+                                    value={drafts[app.id]?.canned ?? ''}
+                                    onChange={(e) => updateDraft(app.id, { canned: e.target.value })}
+                                    className="flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm"
+                                  >
+                                    <option value="">No canned reason</option>
+                                    {nextStages.some((stage) => stage.outcome === 'approved') && (
+                                      <optgroup label="Approval reasons">
+                                        {applicationConfig.cannedReasons.approved.map((canned) => (
+                                          <option key={canned.label} value={canned.label}>{canned.label}</option>
+                                        ))}
+                                      </optgroup>
+                                    )}
+                                    {nextStages.some((stage) => stage.outcome === 'denied') && (
+                                      <optgroup label="Denial reasons">
+                                        {applicationConfig.cannedReasons.denied.map((canned) => (
+                                          <option key={canned.label} value={canned.label}>{getDenialReasonLabel(canned)}</option>
+                                        ))}
+                                      </optgroup>
+                                    )}
+                                  </select>
+                                  <Textarea
+                                    placeholder="Optional reason or note..."
+                                    value={drafts[app.id]?.custom ?? ''}
+                                    onChange={(e) => updateDraft(app.id, { custom: e.target.value })}
+                                    rows={2}
+                                    className="bg-background"
+                                  />
+                                  {claimedByOther && (
+                                    <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                                      <input
+                                        type="checkbox"
+                                        checked={overrideIds.includes(app.id)}
+                                        onChange={(e) => setOverrideIds((current) =>
+                                          e.target.checked ? [...current, app.id] : current.filter((id) => id !== app.id)
+                                        )}
+                                      />
+                                      Override {claim.by.username}&apos;s claim
+                                    </label>
+                                  )}
+                                  <div className="flex flex-wrap gap-3">
+                                    {nextStages.map((stage) => (
+                                      <Button
+                                        key={stage.id}
+                                        onClick={() => stage.outcome && votingEnabled ? handleVote(app.id, stage.outcome) : requestTransition(app, stage)}
+                                        variant={stage.outcome === 'denied' ? 'destructive' : stage.outcome ? 'default' : 'outline'}
+                                        className={stage.outcome === 'approved' ? 'flex-1 bg-green-600 hover:bg-green-700 text-white' : 'flex-1'}
+                                        size="lg"
+                                        disabled={
+                                          (blocked && !(stage.outcome && votingEnabled)) ||
+                                          (!!stage.outcome && !!cannedOutcome && stage.outcome !== cannedOutcome)
+                                        }
+                                      >
+                                        {stage.outcome
+                                          ? `${votingEnabled ? 'Vote ' : ''}${stage.outcome === 'approved' ? 'Approve' : 'Deny'}`
+                                          : stage.label}
+                                      </Button>
+                                    ))}
+                                  </div>
+                                  {canReassign && (
+                                    <div className="flex gap-2">
+                                      <Input
+                                        placeholder="Reassign to Discord user ID..."
+                                        value={assignees[app.id] ?? ''}
+                                        onChange={(e) => setAssignees((current) => ({ ...current, [app.id]: e.target.value }))}
+                                        className="bg-background"
+                                      />
+                                      <Button
+                                        variant="outline"
+                                        onClick={() => handleClaim(app.id, 'reassign')}
+                                        disabled={!assignees[app.id]?.trim()}
+                                      >
+                                        Reassign
+                                      </Button>
+                                    </div>
+                                  )}
+                                </div>
+                              )}
+                            </div>
                           </div>
-                        </div>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              </motion.div>
-            ))}
-          </AnimatePresence>
+                        </CardContent>
+                      </Card>
+                    </motion.div>
+                  )
+                })}
+              </AnimatePresence>
+            </section>
+          ))}
         </div>
       )}
+
+      <ConfirmDialog
+        open={!!confirmation}
+        title={confirmation ? `${getStageActionLabel(confirmation.stage)}: ${confirmation.username}` : ''}
+        confirmLabel={confirmation ? getStageActionLabel(confirmation.stage) : ''}
+        confirmVariant={confirmation?.stage.outcome === 'denied' ? 'destructive' : 'default'}
+        busy={isConfirming}
+        onCancel={closeConfirmation}
+        onConfirm={async () => {
+          if (!confirmation) return
+          setIsConfirming(true)
+          await handleTransition(confirmation)
+          setIsConfirming(false)
+          setConfirmation(null)
+        }}
+      >
+        {confirmation?.preview.embed ? (
+          <>
+            <p className="text-sm text-muted-foreground">The applicant will receive this Discord message:</p>
+            <EmbedPreview embed={confirmation.preview.embed} />
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">No Discord message is sent for this step.</p>
+        )}
+      </ConfirmDialog>
     </motion.div>
   )
 }
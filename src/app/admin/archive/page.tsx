@@ -6,10 +6,22 @@ import type { Session } from "next-auth"
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Textarea } from '@/components/ui/textarea'
 import { useToast } from '@/hooks/use-toast'
 import Link from 'next/link'
-import { isAdmin } from '@/lib/auth'
+import { hasPermission } from '@/lib/permissions'
+import { getApplicationType, getReviewableTypes } from '@/lib/application-types'
 import { motion } from 'framer-motion'
+import StageHistory from '@/app/components/stage-history'
+import VoteTally from '@/app/components/vote-tally'
+import StaffNotes from '@/app/components/staff-notes'
+import DecisionHistory from '@/app/components/decision-history'
+import DuplicateWarnings from '@/app/components/duplicate-warnings'
+import BlacklistWarnings from '@/app/components/blacklist-warnings'
+import ConfirmDialog from '@/app/components/confirm-dialog'
+import ApplicationAnswers from '@/app/components/application-answers'
+import ApplicationTypeFilter from '@/app/components/application-type-filter'
+import type { BlacklistMatch, DecisionRecord, DuplicateMatch, StaffNote, StageTransition, Vote } from '@/lib/storage/types'
 
 type DiscordUser = {
   id: string
@@ -27,15 +39,11 @@ interface ExtendedSession extends Session {
   discord: DiscordUser
 }
 
+// Form answers sit next to the fields below, keyed by field name.
 type ArchivedApplication = {
   id: string
   timestamp: string
-  username: string
-  age: number
-  steamId: string
-  cfxAccount: string
-  experience: string
-  character: string
+  applicationType?: string
   discord: {
     id: string
     username: string
@@ -47,19 +55,56 @@ type ArchivedApplication = {
   status: 'approved' | 'denied'
   statusReason?: string
   updatedAt: string
+  roleAssignment?: {
+    status: 'assigned' | 'pending' | 'failed'
+    updatedAt: string
+    error?: string
+  }
+  notification?: {
+    state: 'pending' | 'sent' | 'failed' | 'dead' | 'cancelled'
+    attempts: number
+    error?: string
+  }
+  stageHistory?: StageTransition[]
+  votes?: Vote[]
+  notes?: StaffNote[]
+  decisionHistory?: DecisionRecord[]
+  reapplyAfter?: string
+  permanentBan?: boolean
+  duplicates?: DuplicateMatch[]
+  blacklistMatches?: BlacklistMatch[]
+  [answer: string]: unknown
+}
+
+const notificationLabels = {
+  pending: 'Queued',
+  sent: 'Delivered',
+  failed: 'Retrying',
+  dead: 'Not delivered',
+  cancelled: 'Cancelled',
+}
+
+const roleAssignmentLabels = {
+  assigned: 'Assigned',
+  pending: 'Waiting to be assigned',
+  failed: 'Failed',
 }
 
 export default function ArchivedApplications() {
   const { data: session, status } = useSession()
   const [archivedApplications, setArchivedApplications] = useState<ArchivedApplication[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const [reopening, setReopening] = useState<ArchivedApplication | null>(null)
+  const [reopenReason, setReopenReason] = useState('')
+  const [notifyApplicant, setNotifyApplicant] = useState(false)
+  const [isReopenBusy, setIsReopenBusy] = useState(false)
+  const [typeFilter, setTypeFilter] = useState<string | null>(null)
   const { toast } = useToast()
   const router = useRouter()
 
   const fetchArchivedApplications = useCallback(async () => {
     try {
-      setIsLoading(true)
-      const response = await fetch('/api/applications/archive')
+      const response = await fetch(typeFilter ? `/api/applications/archive?type=${typeFilter}` : '/api/applications/archive')
       if (!response.ok) {
         throw new Error('Failed to fetch archived applications')
       }
@@ -75,16 +120,54 @@ export default function ArchivedApplications() {
     } finally {
       setIsLoading(false)
     }
-  }, [toast])
+  }, [toast, typeFilter])
 
   useEffect(() => {
-    if (status === 'unauthenticated' || ((session as ExtendedSession)?.discord && !isAdmin((session as ExtendedSession).discord.id))) {
+    if (status === 'unauthenticated' || ((session as ExtendedSession)?.discord && !hasPermission(session?.staffRole, 'viewApplications'))) {
       router.push('/')
-    } else if (status === 'authenticated' && isAdmin((session as ExtendedSession)?.discord?.id)) {
+    } else if (status === 'authenticated' && hasPermission(session?.staffRole, 'viewApplications')) {
       fetchArchivedApplications()
     }
   }, [status, session, router, fetchArchivedApplications])
 
+  const handleReopen = async () => {
+    if (!reopening) return
+    setIsReopenBusy(true)
+    try {
+      const response = await fetch(`/api/applications/${reopening.id}/reopen`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reason: reopenReason, notify: notifyApplicant }),
+        credentials: 'include',
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to reopen application')
+      }
+
+      toast({
+        title: 'Application Reopened',
+        description: data.message,
+      })
+      setReopening(null)
+      setReopenReason('')
+      setNotifyApplicant(false)
+      fetchArchivedApplications()
+    } catch (error) {
+      console.error('Error reopening application:', error)
+      toast({
+        title: 'Reopen Error',
+        description: error instanceof Error ? error.message : 'There was an error reopening the application.',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsReopenBusy(false)
+    }
+  }
+
   if (status === 'loading' || isLoading) {
     return (
       <div className="container mx-auto p-4 text-center">
@@ -93,10 +176,15 @@ export default function ArchivedApplications() {
     )
   }
 
-  if (!(session as ExtendedSession)?.discord?.id || !isAdmin((session as ExtendedSession).discord.id)) {
+  if (!(session as ExtendedSession)?.discord?.id || !hasPermission(session?.staffRole, 'viewApplications')) {
     return null
   }
 
+  const canViewPii = hasPermission(session?.staffRole, 'viewPii')
+  const canWriteNotes = hasPermission(session?.staffRole, 'decide')
+  const canReopen = hasPermission(session?.staffRole, 'reopenArchived')
+  const showTypes = getReviewableTypes(session?.staffRole).length > 1
+
   return (
     <motion.div 
       initial={{ opacity: 0 }} 
@@ -116,6 +204,8 @@ export default function ArchivedApplications() {
         </div>
       </div>
 
+      <ApplicationTypeFilter role={session?.staffRole} value={typeFilter} onChange={setTypeFilter} />
+
       {archivedApplications.length === 0 ? (
         <Card>
           <CardContent className="p-6 text-center text-muted-foreground">
@@ -127,47 +217,28 @@ export default function ArchivedApplications() {
           {archivedApplications.map((app) => (
             <motion.div
               key={app.id}
+              id={app.id}
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               transition={{ duration: 0.5 }}
             >
               <Card>
-                <CardHeader>
-                  <CardTitle>{app.username}&apos;s Application</CardTitle>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <CardTitle>
+                    {app.discord.username}&apos;s {showTypes ? `${getApplicationType(app).label} ` : ''}Application
+                  </CardTitle>
+                  {canReopen && (
+                    <Button variant="outline" size="sm" onClick={() => setReopening(app)}>
+                      Reopen
+                    </Button>
+                  )}
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-6">
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                      <section>
-                        <h3 className="text-lg font-semibold mb-2">Personal Information</h3>
-                        <div className="space-y-2">
-                          <p><strong>Age:</strong> {app.age}</p>
-                          <p><strong>Discord:</strong> {app.discord.username}</p>
-                        </div>
-                      </section>
-
-                      <section>
-                        <h3 className="text-lg font-semibold mb-2">Game Information</h3>
-                        <div className="space-y-2">
-                          <p><strong>Steam ID:</strong> {app.steamId}</p>
-                          <p className="break-all"><strong>CFX Account:</strong> {app.cfxAccount}</p>
-                        </div>
-                      </section>
-                    </div>
-
-                    <section>
-                      <h3 className="text-lg font-semibold mb-2">Experience</h3>
-                      <div className="bg-muted/50 rounded-lg p-3 break-words whitespace-pre-wrap">
-                        {app.experience}
-                      </div>
-                    </section>
+                    <BlacklistWarnings matches={app.blacklistMatches} />
+                    <DuplicateWarnings duplicates={app.duplicates} />
 
-                    <section>
-                      <h3 className="text-lg font-semibold mb-2">Character Backstory</h3>
-                      <div className="bg-muted/50 rounded-lg p-3 break-words whitespace-pre-wrap">
-                        {app.character}
-                      </div>
-                    </section>
+                    <ApplicationAnswers application={app} canViewPii={canViewPii} />
 
                     <section className="border-t pt-4">
                       <div className="space-y-2">
@@ -180,6 +251,33 @@ export default function ArchivedApplications() {
                         {app.statusReason && (
                           <p><strong>Reason: </strong>{app.statusReason}</p>
                         )}
+                        {app.status === 'denied' && (app.permanentBan || app.reapplyAfter) && (
+                          <p>
+                            <strong>Can Reapply: </strong>
+                            {app.permanentBan ? 'Never (permanent ban)' : app.reapplyAfter && new Date(app.reapplyAfter).toLocaleDateString()}
+                          </p>
+                        )}
+                        {app.notification && (
+                          <p>
+                            <strong>Discord DM: </strong>
+                            {notificationLabels[app.notification.state]}
+                            {app.notification.error && app.notification.state !== 'sent' && (
+                              <span className="text-muted-foreground"> ({app.notification.error})</span>
+                            )}
+                          </p>
+                        )}
+                        {app.roleAssignment && (
+                          <p>
+                            <strong>Discord Roles: </strong>
+                            {roleAssignmentLabels[app.roleAssignment.status]}
+                            {app.roleAssignment.error && (
+                              <span className="text-muted-foreground"> ({app.roleAssignment.error})</span>
+                            )}
+                          </p>
+                        )}
+                        <VoteTally votes={app.votes} />
+                        <StageHistory history={app.stageHistory} />
+                        <DecisionHistory history={app.decisionHistory} />
                         <p>
                           <strong>Updated At: </strong>
                           {new Date(app.updatedAt).toLocaleDateString('en-US', {
@@ -195,6 +293,16 @@ export default function ArchivedApplications() {
                         </p>
                       </div>
                     </section>
+
+                    <section className="border-t pt-4">
+                      <StaffNotes
+                        applicationId={app.id}
+                        notes={app.notes}
+                        currentUser={(session as ExtendedSession).discord}
+                        canWrite={canWriteNotes}
+                        onChange={fetchArchivedApplications}
+                      />
+                    </section>
                   </div>
                 </CardContent>
               </Card>
@@ -202,6 +310,35 @@ export default function ArchivedApplications() {
           ))}
         </div>
       )}
+
+      <ConfirmDialog
+        open={!!reopening}
+        title={`Reopen ${reopening?.discord.username ?? ''}'s application?`}
+        confirmLabel="Reopen"
+        busy={isReopenBusy}
+        confirmDisabled={!reopenReason.trim()}
+        onCancel={() => setReopening(null)}
+        onConfirm={handleReopen}
+      >
+        <p className="text-sm text-muted-foreground">
+          The application goes back to pending review. The current decision is kept in its history
+          {reopening?.status === 'approved' && ' and the approval roles are taken back'}.
+        </p>
+        <Textarea
+          placeholder="Why is this application being reopened?"
+          value={reopenReason}
+          onChange={(e) => setReopenReason(e.target.value)}
+          rows={3}
+        />
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={notifyApplicant}
+            onChange={(e) => setNotifyApplicant(e.target.checked)}
+          />
+          Let the applicant know their application is being reconsidered
+        </label>
+      </ConfirmDialog>
     </motion.div>
   )
 }
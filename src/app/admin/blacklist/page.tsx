@@ -0,0 +1,337 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useSession } from "next-auth/react"
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useToast } from '@/hooks/use-toast'
+import Link from 'next/link'
+import { motion, AnimatePresence } from 'framer-motion'
+import { hasPermission } from '@/lib/permissions'
+import { blacklistEntryTypes, getBlacklistTypeLabel, isBlacklistEntryActive } from '@/lib/blacklist'
+import type { BlacklistAction, BlacklistEntry, BlacklistEntryType } from '@/lib/storage/types'
+
+type EntryDraft = {
+  type: BlacklistEntryType
+  value: string
+  reason: string
+  action: BlacklistAction
+  expiresOn: string
+}
+
+const emptyDraft: EntryDraft = { type: 'discordId', value: '', reason: '', action: 'reject', expiresOn: '' }
+
+const selectClassName = 'flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm'
+
+export default function BlacklistManager() {
+  const { data: session, status } = useSession()
+  const [entries, setEntries] = useState<BlacklistEntry[]>([])
+  const [draft, setDraft] = useState<EntryDraft>(emptyDraft)
+  const [isSaving, setIsSaving] = useState(false)
+  const [removingId, setRemovingId] = useState<string | null>(null)
+  const importInput = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+  const router = useRouter()
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      const response = await fetch('/api/blacklist')
+      if (!response.ok) {
+        throw new Error('Failed to fetch blacklist')
+      }
+      setEntries(await response.json())
+    } catch (error) {
+      console.error('Error fetching blacklist:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch the blacklist. Please try again.',
+        variant: 'destructive',
+      })
+    }
+  }, [toast])
+
+  useEffect(() => {
+    if (status === 'unauthenticated' || (session?.discord && !hasPermission(session.staffRole, 'manageBlacklist'))) {
+      router.push('/')
+    } else if (status === 'authenticated' && hasPermission(session?.staffRole, 'manageBlacklist')) {
+      fetchEntries()
+    }
+  }, [status, session, router, fetchEntries])
+
+  const handleAdd = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/blacklist', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          type: draft.type,
+          value: draft.value,
+          reason: draft.reason,
+          action: draft.action,
+          // Entries expire at the end of the chosen day
+          expiresAt: draft.expiresOn ? new Date(`${draft.expiresOn}T23:59:59`).toISOString() : undefined,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add blacklist entry')
+      }
+
+      toast({
+        title: 'Entry Added',
+        description: `${getBlacklistTypeLabel(data.type)} ${data.value} is now on the blacklist.`,
+      })
+      setDraft({ ...emptyDraft, type: draft.type, action: draft.action })
+      fetchEntries()
+    } catch (error) {
+      console.error('Error adding blacklist entry:', error)
+      toast({
+        title: 'Save Error',
+        description: error instanceof Error ? error.message : 'There was an error adding the entry.',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRemove = async (id: string) => {
+    setRemovingId(id)
+    try {
+      const response = await fetch(`/api/blacklist/${id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to remove blacklist entry')
+      }
+
+      fetchEntries()
+    } catch (error) {
+      console.error('Error removing blacklist entry:', error)
+      toast({
+        title: 'Remove Error',
+        description: error instanceof Error ? error.message : 'There was an error removing the entry.',
+        variant: 'destructive',
+      })
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  const handleImport = async (file: File) => {
+    try {
+      let contents: unknown
+      try {
+        contents = JSON.parse(await file.text())
+      } catch {
+        throw new Error('The file is not valid JSON')
+      }
+
+      const response = await fetch('/api/blacklist/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(contents),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import blacklist')
+      }
+
+      toast({
+        title: 'Blacklist Imported',
+        description: data.message,
+      })
+      fetchEntries()
+    } catch (error) {
+      console.error('Error importing blacklist:', error)
+      toast({
+        title: 'Import Error',
+        description: error instanceof Error ? error.message : 'There was an error importing the blacklist.',
+        variant: 'destructive',
+      })
+    } finally {
+      if (importInput.current) {
+        importInput.current.value = ''
+      }
+    }
+  }
+
+  if (status === 'loading' || !session?.discord || !hasPermission(session.staffRole, 'manageBlacklist')) {
+    return null
+  }
+
+  const placeholder = blacklistEntryTypes.find((entryType) => entryType.type === draft.type)?.placeholder
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="container mx-auto px-4 py-8 max-w-7xl"
+    >
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+        <div>
+          <h1 className="text-4xl font-bold tracking-tight mb-2">Blacklist</h1>
+          <p className="text-muted-foreground">Discord IDs, Steam IDs, CFX accounts and email domains that cannot apply</p>
+        </div>
+        <div className="flex gap-2">
+          <a href="/api/blacklist/export" download>
+            <Button variant="outline" size="sm">Export</Button>
+          </a>
+          <Button variant="outline" size="sm" onClick={() => importInput.current?.click()}>
+            Import
+          </Button>
+          <input
+            ref={importInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && handleImport(e.target.files[0])}
+          />
+          <Link href="/admin/applications">
+            <Button variant="outline" size="sm">Applications</Button>
+          </Link>
+          <Link href="/">
+            <Button variant="outline" size="sm">Home</Button>
+          </Link>
+        </div>
+      </div>
+
+      <Card className="border-border/50 mb-8">
+        <CardHeader>
+          <CardTitle className="text-lg">Add Entry</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="blacklist-type">Type</Label>
+              <select
+                id="blacklist-type"
+                value={draft.type}
+                onChange={(e) => setDraft({ ...draft, type: e.target.value as BlacklistEntryType })}
+                className={selectClassName}
+              >
+                {blacklistEntryTypes.map(({ type, label }) => (
+                  <option key={type} value={type}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="blacklist-value">Value</Label>
+              <Input
+                id="blacklist-value"
+                placeholder={placeholder}
+                value={draft.value}
+                onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="blacklist-reason">Reason</Label>
+              <Input
+                id="blacklist-reason"
+                placeholder="Why is this blacklisted? Only staff can see this."
+                value={draft.reason}
+                onChange={(e) => setDraft({ ...draft, reason: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="blacklist-action">On a matching submission</Label>
+              <select
+                id="blacklist-action"
+                value={draft.action}
+                onChange={(e) => setDraft({ ...draft, action: e.target.value as BlacklistAction })}
+                className={selectClassName}
+              >
+                <option value="reject">Reject it</option>
+                <option value="flag">Accept it and flag it for staff</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="blacklist-expiry">Expires (optional)</Label>
+              <Input
+                id="blacklist-expiry"
+                type="date"
+                value={draft.expiresOn}
+                onChange={(e) => setDraft({ ...draft, expiresOn: e.target.value })}
+              />
+            </div>
+          </div>
+          <Button onClick={handleAdd} disabled={isSaving || !draft.value.trim() || !draft.reason.trim()}>
+            {isSaving ? 'Adding...' : 'Add to Blacklist'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {entries.length === 0 ? (
+        <Card className="border-dashed">
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <h3 className="text-lg font-semibold mb-2">The blacklist is empty</h3>
+            <p className="text-sm text-muted-foreground">Entries you add or import will appear here</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          <AnimatePresence>
+            {entries.map((entry) => {
+              const active = isBlacklistEntryActive(entry)
+              return (
+                <motion.div
+                  key={entry.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -20 }}
+                  transition={{ duration: 0.3 }}
+                >
+                  <Card className={active ? 'border-border/50' : 'border-border/50 opacity-60'}>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                      <CardTitle className="text-lg break-all">
+                        {getBlacklistTypeLabel(entry.type)}: <span className="font-mono">{entry.value}</span>
+                      </CardTitle>
+                      <div className="flex items-center gap-2">
+                        {!active && <Badge variant="outline">Expired</Badge>}
+                        <Badge variant={entry.action === 'reject' ? 'destructive' : 'secondary'}>
+                          {entry.action === 'reject' ? 'Reject' : 'Flag'}
+                        </Badge>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-2 text-sm">
+                      <p className="break-words"><strong>Reason:</strong> {entry.reason}</p>
+                      <p>
+                        <strong>Added by:</strong> {entry.addedBy.username} on {new Date(entry.createdAt).toLocaleString()}
+                      </p>
+                      {entry.expiresAt && (
+                        <p><strong>{active ? 'Expires' : 'Expired'}:</strong> {new Date(entry.expiresAt).toLocaleString()}</p>
+                      )}
+                      <div className="pt-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRemove(entry.id)}
+                          disabled={removingId === entry.id}
+                        >
+                          {removingId === entry.id ? 'Removing...' : 'Remove'}
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </motion.div>
+              )
+            })}
+          </AnimatePresence>
+        </div>
+      )}
+    </motion.div>
+  )
+}
@@ -0,0 +1,266 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from "next-auth/react"
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { useToast } from '@/hooks/use-toast'
+import Link from 'next/link'
+import { motion } from 'framer-motion'
+import { hasPermission } from '@/lib/permissions'
+import type { IntakeSettings } from '@/lib/config'
+import type { IntakeClosedReason, IntakeStatus } from '@/lib/intake'
+
+const intakeModes: { mode: IntakeSettings['mode']; label: string; description: string }[] = [
+  { mode: 'open', label: 'Open', description: 'Accept applications until closed here or the pending limit is reached' },
+  { mode: 'scheduled', label: 'Scheduled', description: 'Accept applications between the opening and closing times' },
+  { mode: 'closed', label: 'Closed', description: 'Show the closed page until intake is opened again' },
+]
+
+const closedReasonLabels: Record<IntakeClosedReason, string> = {
+  closed: 'Closed by staff',
+  notYetOpen: 'Not open yet',
+  ended: 'Closing time has passed',
+  full: 'Pending limit reached',
+}
+
+// <input type="datetime-local"> works in local time without a timezone.
+const toLocalInput = (value?: string) => {
+  if (!value) return ''
+  const date = new Date(value)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16)
+}
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : undefined)
+
+export default function IntakeEditor() {
+  const { data: session, status } = useSession()
+  const [settings, setSettings] = useState<IntakeSettings | null>(null)
+  const [defaults, setDefaults] = useState<IntakeSettings | null>(null)
+  const [intake, setIntake] = useState<IntakeStatus | null>(null)
+  const [pendingCount, setPendingCount] = useState(0)
+  const [serverErrors, setServerErrors] = useState<string[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+  const router = useRouter()
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      const response = await fetch('/api/intake/settings')
+      if (!response.ok) {
+        throw new Error('Failed to fetch intake settings')
+      }
+      const data = await response.json()
+      setSettings(data.settings)
+      setDefaults(data.defaults)
+      setIntake(data.status)
+      setPendingCount(data.pendingCount)
+    } catch (error) {
+      console.error('Error fetching intake settings:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch intake settings. Please try again.',
+        variant: 'destructive',
+      })
+    }
+  }, [toast])
+
+  useEffect(() => {
+    if (status === 'unauthenticated' || (session?.discord && !hasPermission(session.staffRole, 'editConfig'))) {
+      router.push('/')
+    } else if (status === 'authenticated' && hasPermission(session?.staffRole, 'editConfig')) {
+      fetchSettings()
+    }
+  }, [status, session, router, fetchSettings])
+
+  const updateSettings = (update: Partial<IntakeSettings>) => {
+    setSettings((current) => current && { ...current, ...update })
+  }
+
+  const handleSave = async () => {
+    if (!settings) return
+    setIsSaving(true)
+    setServerErrors([])
+    try {
+      const response = await fetch('/api/intake/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(settings),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        setServerErrors(data.errors ?? [])
+        throw new Error(data.error || 'Failed to save intake settings')
+      }
+
+      setSettings(data.settings)
+      setIntake(data.status)
+      setPendingCount(data.pendingCount)
+      toast({
+        title: 'Intake Saved',
+        description: data.status.open ? 'Applications are open.' : 'Applications are closed.',
+      })
+    } catch (error) {
+      console.error('Error saving intake settings:', error)
+      toast({
+        title: 'Save Error',
+        description: error instanceof Error ? error.message : 'There was an error saving the intake settings.',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (status === 'loading' || !session?.discord || !hasPermission(session.staffRole, 'editConfig')) {
+    return null
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="container mx-auto px-4 py-8 max-w-7xl"
+    >
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+        <div>
+          <h1 className="text-4xl font-bold tracking-tight mb-2">Application Intake</h1>
+          <p className="text-muted-foreground">Choose when the whitelist form accepts new applications</p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/admin/applications">
+            <Button variant="outline" size="sm">Applications</Button>
+          </Link>
+          <Link href="/">
+            <Button variant="outline" size="sm">Home</Button>
+          </Link>
+        </div>
+      </div>
+
+      {settings && (
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Card className="border-border/50 lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-lg">Settings</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <Label>Intake</Label>
+                <div className="flex gap-2">
+                  {intakeModes.map(({ mode, label }) => (
+                    <Button
+                      key={mode}
+                      variant={settings.mode === mode ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => updateSettings({ mode })}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {intakeModes.find(({ mode }) => mode === settings.mode)?.description}
+                </p>
+              </div>
+
+              {settings.mode === 'scheduled' && (
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="intake-opens">Opens (optional)</Label>
+                    <Input
+                      id="intake-opens"
+                      type="datetime-local"
+                      value={toLocalInput(settings.opensAt)}
+                      onChange={(e) => updateSettings({ opensAt: fromLocalInput(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="intake-closes">Closes (optional)</Label>
+                    <Input
+                      id="intake-closes"
+                      type="datetime-local"
+                      value={toLocalInput(settings.closesAt)}
+                      onChange={(e) => updateSettings({ closesAt: fromLocalInput(e.target.value) })}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="intake-max-pending">Maximum pending applications</Label>
+                <Input
+                  id="intake-max-pending"
+                  type="number"
+                  min={0}
+                  value={settings.maxPending}
+                  onChange={(e) => updateSettings({ maxPending: e.target.value ? parseInt(e.target.value, 10) : 0 })}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Intake closes while this many applications are waiting for review. Set to 0 for no limit.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="intake-message">Closed message</Label>
+                <Textarea
+                  id="intake-message"
+                  rows={4}
+                  value={settings.closedMessage}
+                  onChange={(e) => updateSettings({ closedMessage: e.target.value })}
+                />
+              </div>
+
+              {serverErrors.length > 0 && (
+                <ul className="text-sm text-destructive list-disc pl-5">
+                  {serverErrors.map((error) => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+
+              <div className="flex gap-2 pt-2">
+                <Button onClick={handleSave} disabled={isSaving || !settings.closedMessage.trim()}>
+                  {isSaving ? 'Saving...' : 'Save Intake'}
+                </Button>
+                {defaults && (
+                  <Button variant="outline" onClick={() => setSettings(defaults)}>
+                    Reset to Default
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {intake && (
+            <Card className="border-border/50 h-fit">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-lg">Right Now</CardTitle>
+                <Badge variant={intake.open ? 'default' : 'secondary'}>{intake.open ? 'Open' : 'Closed'}</Badge>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {!intake.open && <p><strong>Reason:</strong> {closedReasonLabels[intake.reason]}</p>}
+                <p>
+                  <strong>Pending applications:</strong> {pendingCount}
+                  {settings.maxPending > 0 && ` of ${settings.maxPending}`}
+                </p>
+                {intake.open && intake.closesAt && (
+                  <p><strong>Closes:</strong> {new Date(intake.closesAt).toLocaleString()}</p>
+                )}
+                {!intake.open && intake.nextOpening && (
+                  <p><strong>Next opening:</strong> {new Date(intake.nextOpening).toLocaleString()}</p>
+                )}
+                <p className="text-muted-foreground pt-2">Reflects the saved settings.</p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </motion.div>
+  )
+}
@@ -0,0 +1,172 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from "next-auth/react"
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { useToast } from '@/hooks/use-toast'
+import Link from 'next/link'
+import { motion, AnimatePresence } from 'framer-motion'
+import { hasPermission } from '@/lib/permissions'
+import type { OutboxMessage } from '@/lib/storage/types'
+
+const notificationLabels: Record<OutboxMessage['payload']['status'], string> = {
+  approved: 'Approval',
+  denied: 'Denial',
+  banned: 'Permanent Ban',
+  interview: 'Interview',
+  waitlisted: 'Waitlist',
+  reconsidered: 'Reconsidered',
+}
+
+export default function NotificationOutbox() {
+  const { data: session, status } = useSession()
+  const [messages, setMessages] = useState<OutboxMessage[]>([])
+  const [resendingId, setResendingId] = useState<string | null>(null)
+  const { toast } = useToast()
+  const router = useRouter()
+
+  const fetchMessages = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications')
+      if (!response.ok) {
+        throw new Error('Failed to fetch notifications')
+      }
+      setMessages(await response.json())
+    } catch (error) {
+      console.error('Error fetching notifications:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch notifications. Please try again.',
+        variant: 'destructive',
+      })
+    }
+  }, [toast])
+
+  useEffect(() => {
+    if (status === 'unauthenticated' || (session?.discord && !hasPermission(session.staffRole, 'editConfig'))) {
+      router.push('/')
+    } else if (status === 'authenticated' && hasPermission(session?.staffRole, 'editConfig')) {
+      fetchMessages()
+    }
+  }, [status, session, router, fetchMessages])
+
+  const handleResend = async (id: string) => {
+    setResendingId(id)
+    try {
+      const response = await fetch(`/api/notifications/${id}/resend`, {
+        method: 'POST',
+        credentials: 'include',
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to resend notification')
+      }
+
+      const data = await response.json()
+      toast({
+        title: data.sent ? 'Notification Sent' : 'Notification Queued',
+        description: data.sent
+          ? 'The applicant has been notified via Discord.'
+          : 'The notification has been queued for another round of delivery attempts.',
+      })
+      fetchMessages()
+    } catch (error) {
+      console.error('Error resending notification:', error)
+      toast({
+        title: 'Resend Error',
+        description: error instanceof Error ? error.message : 'There was an error resending the notification.',
+        variant: 'destructive',
+      })
+    } finally {
+      setResendingId(null)
+    }
+  }
+
+  if (status === 'loading' || !session?.discord || !hasPermission(session.staffRole, 'editConfig')) {
+    return null
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="container mx-auto px-4 py-8 max-w-7xl"
+    >
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+        <div>
+          <h1 className="text-4xl font-bold tracking-tight mb-2">Notifications</h1>
+          <p className="text-muted-foreground">Discord messages that are being retried or could not be delivered</p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/admin/applications">
+            <Button variant="outline" size="sm">Applications</Button>
+          </Link>
+          <Link href="/">
+            <Button variant="outline" size="sm">Home</Button>
+          </Link>
+        </div>
+      </div>
+
+      {messages.length === 0 ? (
+        <Card className="border-dashed">
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <h3 className="text-lg font-semibold mb-2">No undelivered notifications</h3>
+            <p className="text-sm text-muted-foreground">Messages that fail to send will appear here</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          <AnimatePresence>
+            {messages.map((message) => (
+              <motion.div
+                key={message.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                transition={{ duration: 0.3 }}
+              >
+                <Card className="border-border/50">
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                    <CardTitle className="text-lg">
+                      {notificationLabels[message.payload.status]} DM to {message.userId}
+                    </CardTitle>
+                    <Badge variant={message.state === 'dead' ? 'destructive' : 'secondary'}>
+                      {message.state === 'dead' ? 'Dead letter' : 'Retrying'}
+                    </Badge>
+                  </CardHeader>
+                  <CardContent className="space-y-2 text-sm">
+                    {message.applicationId && (
+                      <p><strong>Application:</strong> {message.applicationId}</p>
+                    )}
+                    <p><strong>Attempts:</strong> {message.attempts}</p>
+                    {message.lastError && (
+                      <p className="break-words"><strong>Last error:</strong> {message.lastError}</p>
+                    )}
+                    <p>
+                      <strong>{message.state === 'dead' ? 'Gave up' : 'Next attempt'}: </strong>
+                      {new Date(message.state === 'dead' ? message.updatedAt : message.nextAttemptAt).toLocaleString()}
+                    </p>
+                    <div className="pt-2">
+                      <Button
+                        size="sm"
+                        onClick={() => handleResend(message.id)}
+                        disabled={resendingId === message.id}
+                      >
+                        {resendingId === message.id ? 'Resending...' : 'Resend'}
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              </motion.div>
+            ))}
+          </AnimatePresence>
+        </div>
+      )}
+    </motion.div>
+  )
+}
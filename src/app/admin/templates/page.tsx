@@ -0,0 +1,317 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from "next-auth/react"
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { useToast } from '@/hooks/use-toast'
+import Link from 'next/link'
+import { motion } from 'framer-motion'
+import { hasPermission } from '@/lib/permissions'
+import EmbedPreview from '@/app/components/embed-preview'
+import { applicationConfig, type MessageTemplate, type MessageTemplateType } from '@/lib/config'
+import {
+  findUnknownPlaceholders,
+  renderTemplate,
+  templatePlaceholders,
+  type MessageTemplates,
+  type TemplateVariables,
+} from '@/lib/message-templates'
+
+const templateTypes: { type: MessageTemplateType; label: string }[] = [
+  { type: 'approved', label: 'Approval' },
+  { type: 'denied', label: 'Denial' },
+  { type: 'banned', label: 'Permanent Ban' },
+  { type: 'interview', label: 'Interview' },
+  { type: 'waitlisted', label: 'Waitlist' },
+  { type: 'reconsidered', label: 'Reconsidered' },
+]
+
+// Used for the preview only, real DMs are filled in from the application.
+const sampleVariables: TemplateVariables = {
+  username: 'applicant',
+  characterName: 'John Doe',
+  reason: 'Great backstory, welcome aboard!',
+  reviewer: 'staff-member',
+  reapplyDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toLocaleDateString(),
+  decisionDate: new Date().toLocaleString(),
+  serverName: 'Your Server',
+}
+
+export default function MessageTemplatesEditor() {
+  const { data: session, status } = useSession()
+  const [templates, setTemplates] = useState<MessageTemplates | null>(null)
+  const [defaults, setDefaults] = useState<MessageTemplates | null>(null)
+  const [applicationTypeId, setApplicationTypeId] = useState(applicationConfig.applicationTypes[0].id)
+  const [selectedType, setSelectedType] = useState<MessageTemplateType>('approved')
+  const [serverErrors, setServerErrors] = useState<string[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+  const router = useRouter()
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/templates?type=${applicationTypeId}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch message templates')
+      }
+      const data = await response.json()
+      setTemplates(data.templates)
+      setDefaults(data.defaults)
+    } catch (error) {
+      console.error('Error fetching message templates:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch message templates. Please try again.',
+        variant: 'destructive',
+      })
+    }
+  }, [toast, applicationTypeId])
+
+  useEffect(() => {
+    if (status === 'unauthenticated' || (session?.discord && !hasPermission(session.staffRole, 'editConfig'))) {
+      router.push('/')
+    } else if (status === 'authenticated' && hasPermission(session?.staffRole, 'editConfig')) {
+      fetchTemplates()
+    }
+  }, [status, session, router, fetchTemplates])
+
+  const updateTemplate = (update: Partial<MessageTemplate>) => {
+    setTemplates((current) => current && { ...current, [selectedType]: { ...current[selectedType], ...update } })
+  }
+
+  const updateField = (index: number, update: Partial<MessageTemplate['fields'][number]>) => {
+    if (!templates) return
+    const fields = templates[selectedType].fields.map((field, i) => (i === index ? { ...field, ...update } : field))
+    updateTemplate({ fields })
+  }
+
+  const handleSave = async () => {
+    if (!templates) return
+    setIsSaving(true)
+    setServerErrors([])
+    try {
+      const response = await fetch(`/api/templates?type=${applicationTypeId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(templates),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        setServerErrors(data.errors ?? [])
+        throw new Error(data.error || 'Failed to save message templates')
+      }
+
+      setTemplates(data.templates)
+      toast({
+        title: 'Templates Saved',
+        description: 'New DMs will use the updated templates.',
+      })
+    } catch (error) {
+      console.error('Error saving message templates:', error)
+      toast({
+        title: 'Save Error',
+        description: error instanceof Error ? error.message : 'There was an error saving the templates.',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (status === 'loading' || !session?.discord || !hasPermission(session.staffRole, 'editConfig')) {
+    return null
+  }
+
+  const template = templates?.[selectedType]
+  const unknownPlaceholders = template ? findUnknownPlaceholders(template) : []
+  const applicationType = applicationConfig.applicationTypes.find((type) => type.id === applicationTypeId)
+  const preview = template
+    ? renderTemplate(template, { ...sampleVariables, applicationType: applicationType?.label })
+    : null
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="container mx-auto px-4 py-8 max-w-7xl"
+    >
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+        <div>
+          <h1 className="text-4xl font-bold tracking-tight mb-2">Message Templates</h1>
+          <p className="text-muted-foreground">Edit the Discord DMs applicants receive as their application is reviewed, for each application type</p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/admin/applications">
+            <Button variant="outline" size="sm">Applications</Button>
+          </Link>
+          <Link href="/">
+            <Button variant="outline" size="sm">Home</Button>
+          </Link>
+        </div>
+      </div>
+
+      {applicationConfig.applicationTypes.length > 1 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {applicationConfig.applicationTypes.map((type) => (
+            <Button
+              key={type.id}
+              variant={applicationTypeId === type.id ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => {
+                setTemplates(null)
+                setServerErrors([])
+                setApplicationTypeId(type.id)
+              }}
+            >
+              {type.label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2 mb-6">
+        {templateTypes.map(({ type, label }) => (
+          <Button
+            key={type}
+            variant={selectedType === type ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setSelectedType(type)}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {template && preview && (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card className="border-border/50">
+            <CardHeader>
+              <CardTitle className="text-lg">Template</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Placeholders: {templatePlaceholders.map((name) => `{${name}}`).join(', ')}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-title">Title</Label>
+                <Input
+                  id="template-title"
+                  value={template.title}
+                  onChange={(e) => updateTemplate({ title: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-description">Description</Label>
+                <Textarea
+                  id="template-description"
+                  rows={8}
+                  value={template.description}
+                  onChange={(e) => updateTemplate({ description: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-color">Color</Label>
+                <Input
+                  id="template-color"
+                  value={template.color}
+                  onChange={(e) => updateTemplate({ color: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Fields</Label>
+                {template.fields.map((field, index) => (
+                  <div key={index} className="space-y-2 rounded-md border border-border/50 p-3">
+                    <Input
+                      placeholder="Name"
+                      value={field.name}
+                      onChange={(e) => updateField(index, { name: e.target.value })}
+                    />
+                    <Textarea
+                      placeholder="Value"
+                      rows={2}
+                      value={field.value}
+                      onChange={(e) => updateField(index, { value: e.target.value })}
+                    />
+                    <div className="flex items-center justify-between">
+                      <label className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={!!field.inline}
+                          onChange={(e) => updateField(index, { inline: e.target.checked })}
+                        />
+                        Inline
+                      </label>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updateTemplate({ fields: template.fields.filter((_, i) => i !== index) })}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={template.fields.length >= 10}
+                  onClick={() => updateTemplate({ fields: [...template.fields, { name: '', value: '' }] })}
+                >
+                  Add Field
+                </Button>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-footer">Footer</Label>
+                <Input
+                  id="template-footer"
+                  value={template.footer}
+                  onChange={(e) => updateTemplate({ footer: e.target.value })}
+                />
+              </div>
+
+              {unknownPlaceholders.length > 0 && (
+                <p className="text-sm text-destructive">
+                  Unknown placeholders: {unknownPlaceholders.map((name) => `{${name}}`).join(', ')}
+                </p>
+              )}
+              {serverErrors.length > 0 && (
+                <ul className="text-sm text-destructive list-disc pl-5">
+                  {serverErrors.map((error) => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+
+              <div className="flex gap-2 pt-2">
+                <Button onClick={handleSave} disabled={isSaving || unknownPlaceholders.length > 0}>
+                  {isSaving ? 'Saving...' : 'Save Templates'}
+                </Button>
+                {defaults && (
+                  <Button variant="outline" onClick={() => updateTemplate(defaults[selectedType])}>
+                    Reset to Default
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="border-border/50">
+            <CardHeader>
+              <CardTitle className="text-lg">Preview</CardTitle>
+              <p className="text-sm text-muted-foreground">Filled in with sample values</p>
+            </CardHeader>
+            <CardContent>
+              <EmbedPreview embed={preview} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </motion.div>
+  )
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server'
+import { claimApplication, isTransitionError, releaseClaim, type TransitionError } from '@/lib/decisions'
+import { fetchMemberProfile } from '@/lib/discord-bot'
+import { requireApplicationPermission } from '@/lib/guards'
+import { getStaffRole, hasPermission } from '@/lib/permissions'
+
+const errorResponse = (result: TransitionError) =>
+  NextResponse.json({ error: result.message }, { status: result.error === 'notFound' ? 404 : 409 })
+
+// Claims the application for the signed-in reviewer, or for `assignee` (a
+// Discord user ID) when a senior reassigns it. `reassign` takes over a claim
+// held by someone else.
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const { session, response } = await requireApplicationPermission('decide', id)
+    if (response) {
+      return response
+    }
+
+    const { assignee, reassign } = await req.json().catch(() => ({}))
+    const canReassign = hasPermission(session.staffRole, 'reassignClaims')
+
+    if (typeof assignee === 'string' && assignee !== session.discord.id) {
+      if (!canReassign) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+      }
+
+      const profile = await fetchMemberProfile(assignee)
+      if (!hasPermission(getStaffRole(assignee, profile?.guildRoleIds), 'decide')) {
+        return NextResponse.json({ error: 'The assignee must be a staff member who can decide applications' }, { status: 400 })
+      }
+
+      const result = await claimApplication(
+        id,
+        { id: assignee, username: profile?.username ?? assignee },
+        { avatar: profile?.avatar, reassign: true }
+      )
+      return isTransitionError(result) ? errorResponse(result) : NextResponse.json({ claim: result.claim })
+    }
+
+    if (reassign === true && !canReassign) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const result = await claimApplication(
+      id,
+      { id: session.discord.id, username: session.discord.username },
+      { avatar: session.discord.avatar || undefined, reassign: reassign === true }
+    )
+    return isTransitionError(result) ? errorResponse(result) : NextResponse.json({ claim: result.claim })
+  } catch (error) {
+    console.error('Error claiming application:', error)
+    return NextResponse.json({ error: 'Failed to claim application' }, { status: 500 })
+  }
+}
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const { session, response } = await requireApplicationPermission('decide', id)
+    if (response) {
+      return response
+    }
+
+    const result = await releaseClaim(
+      id,
+      { id: session.discord.id, username: session.discord.username },
+      { force: hasPermission(session.staffRole, 'reassignClaims') }
+    )
+    return isTransitionError(result) ? errorResponse(result) : NextResponse.json({ claim: null })
+  } catch (error) {
+    console.error('Error releasing claim:', error)
+    return NextResponse.json({ error: 'Failed to release claim' }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { requireApplicationPermission } from '@/lib/guards'
+import { editNote, maxNoteLength, parseNoteBody } from '@/lib/staff-notes'
+
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string; noteId: string }> }) {
+  try {
+    const { id, noteId } = await params
+    const { session, response } = await requireApplicationPermission('decide', id)
+    if (response) {
+      return response
+    }
+
+    const { body } = await req.json()
+    const text = parseNoteBody(body)
+    if (!text) {
+      return NextResponse.json({ error: `Notes must be between 1 and ${maxNoteLength} characters` }, { status: 400 })
+    }
+
+    const result = await editNote(id, noteId, { id: session.discord.id, username: session.discord.username }, text)
+    if ('error' in result) {
+      return result.error === 'forbidden'
+        ? NextResponse.json({ error: 'Only the author can edit a note' }, { status: 403 })
+        : NextResponse.json({ error: 'Note not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ note: result.note })
+  } catch (error) {
+    console.error('Error editing staff note:', error)
+    return NextResponse.json({ error: 'Failed to edit note' }, { status: 500 })
+  }
+}
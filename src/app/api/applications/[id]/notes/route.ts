@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { requireApplicationPermission } from '@/lib/guards'
+import { addNote, maxNoteLength, parseNoteBody } from '@/lib/staff-notes'
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const { session, response } = await requireApplicationPermission('decide', id)
+    if (response) {
+      return response
+    }
+
+    const { body } = await req.json()
+    const text = parseNoteBody(body)
+    if (!text) {
+      return NextResponse.json({ error: `Notes must be between 1 and ${maxNoteLength} characters` }, { status: 400 })
+    }
+
+    const note = await addNote(id, { id: session.discord.id, username: session.discord.username }, text)
+    if (!note) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ note })
+  } catch (error) {
+    console.error('Error adding staff note:', error)
+    return NextResponse.json({ error: 'Failed to add note' }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { isTransitionError, previewTransitionMessage } from '@/lib/decisions'
+import { requireApplicationPermission } from '@/lib/guards'
+
+// Renders the DM a move to `stage` with `reason` would send, for the
+// confirmation dialog on the admin panel.
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const { session, response } = await requireApplicationPermission('decide', id)
+    if (response) {
+      return response
+    }
+
+    const { stage, reason, cannedReason } = await req.json()
+    if (typeof stage !== 'string') {
+      return NextResponse.json({ error: 'Stage is required' }, { status: 400 })
+    }
+
+    const result = await previewTransitionMessage(
+      id,
+      stage,
+      reason || undefined,
+      { id: session.discord.id, username: session.discord.username },
+      { cannedReason: typeof cannedReason === 'string' ? cannedReason : undefined }
+    )
+    if (isTransitionError(result)) {
+      return NextResponse.json({ error: result.message }, { status: result.error === 'notFound' ? 404 : 409 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error previewing message:', error)
+    return NextResponse.json({ error: 'Failed to preview message' }, { status: 500 })
+  }
+}
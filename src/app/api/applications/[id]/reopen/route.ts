@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { isTransitionError, reopenApplication } from '@/lib/decisions'
+import { requireApplicationPermission } from '@/lib/guards'
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const { session, response } = await requireApplicationPermission('reopenArchived', id)
+    if (response) {
+      return response
+    }
+
+    const { reason, notify } = await req.json()
+    if (typeof reason !== 'string' || !reason.trim()) {
+      return NextResponse.json({ error: 'A reason is required to reopen an application' }, { status: 400 })
+    }
+
+    const result = await reopenApplication(
+      id,
+      reason.trim(),
+      { id: session.discord.id, username: session.discord.username },
+      { notify: notify === true }
+    )
+    if (isTransitionError(result)) {
+      return NextResponse.json({ error: result.message }, { status: result.error === 'notFound' ? 404 : 409 })
+    }
+
+    const { application, discordMessageSent } = result
+    const notification = discordMessageSent === null
+      ? ''
+      : discordMessageSent ? ' Discord notification sent.' : ' Discord notification queued for delivery.'
+    return NextResponse.json({
+      message: `Application reopened successfully.${notification}`,
+      stage: application.stage,
+      discordMessageSent,
+    })
+  } catch (error) {
+    console.error('Error reopening application:', error)
+    return NextResponse.json({ error: 'Failed to reopen application' }, { status: 500 })
+  }
+}
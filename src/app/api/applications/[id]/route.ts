@@ -1,97 +1,44 @@
 import { NextResponse } from 'next/server'
-import fs from 'fs/promises'
-import path from 'path'
-import { getServerSession } from "next-auth"
-import { authOptions } from "@/lib/auth"
-import { sendDirectMessage } from '@/lib/discord-bot'
-import { isAdmin } from '@/lib/auth'
-
-type Application = {
-  id: string
-  timestamp: string
-  username: string
-  age: number
-  steamId: string
-  cfxAccount: string
-  experience: string
-  character: string
-  discord: {
-    id: string
-    username: string
-    discriminator: string
-    avatar: string
-    banner: string
-    accentColor: number | null
-    verified: boolean
-    email: string
-    createdAt: string
-  }
-  status?: 'pending' | 'approved' | 'denied'
-}
-
-const dataFilePath = path.join(process.cwd(), 'data', 'applications.json')
-const archiveFilePath = path.join(process.cwd(), 'data', 'archived_applications.json')
+import { decideApplication, isDecision, isTransitionError, moveApplication } from '@/lib/decisions'
+import { requireApplicationPermission } from '@/lib/guards'
 
+// Moves an application to `stage`, or approves/denies it with `status`.
+// `override` is required when another reviewer has claimed the application.
 export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session || !session.discord) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    if (!isAdmin(session.discord.id)) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
-
     const { id } = await params
-    const { status, reason } = await req.json()
-
-    const data = await fs.readFile(dataFilePath, 'utf8')
-    const applications: Application[] = JSON.parse(data)
-
-    const applicationIndex = applications.findIndex((app) => app.id === id)
-    if (applicationIndex === -1) {
-      return NextResponse.json({ error: 'Application not found' }, { status: 404 })
+    const { session, response } = await requireApplicationPermission('decide', id)
+    if (response) {
+      return response
     }
 
-    const updatedApplication = {
-      ...applications[applicationIndex],
-      status,
-      statusReason: reason,
-      updatedAt: new Date().toISOString()
+    const { stage, status, reason, override, cannedReason } = await req.json()
+    if (typeof stage !== 'string' && !isDecision(status)) {
+      return NextResponse.json({ error: 'Provide a stage, or a status of approved or denied' }, { status: 400 })
     }
 
-    applications.splice(applicationIndex, 1)
-    await fs.writeFile(dataFilePath, JSON.stringify(applications, null, 2))
-
-    let archivedApplications = []
-    try {
-      const archivedData = await fs.readFile(archiveFilePath, 'utf8')
-      archivedApplications = JSON.parse(archivedData)
-    } catch {
-      console.log('No existing archive file, creating a new one')
+    const staffMember = { id: session.discord.id, username: session.discord.username }
+    const options = {
+      override: override === true,
+      cannedReason: typeof cannedReason === 'string' ? cannedReason : undefined,
     }
-    archivedApplications.push(updatedApplication)
-    await fs.writeFile(archiveFilePath, JSON.stringify(archivedApplications, null, 2))
-
-    let discordMessageSent = false
-    try {
-      console.log(`Attempting to send Discord DM to user ${updatedApplication.discord.id} for ${status} application`)
-      await sendDirectMessage(updatedApplication.discord.id, status as 'approved' | 'denied', reason)
-      discordMessageSent = true
-      console.log(`Discord message sent successfully to user ${updatedApplication.discord.id}`)
-    } catch (error) {
-      console.error(`Failed to send Discord message to user ${updatedApplication.discord.id}:`, error)
+    const result = typeof stage === 'string'
+      ? await moveApplication(id, stage, reason || undefined, staffMember, options)
+      : await decideApplication(id, status, reason || undefined, staffMember, options)
+    if (isTransitionError(result)) {
+      return NextResponse.json({ error: result.message }, { status: result.error === 'notFound' ? 404 : 409 })
     }
 
-    const message = discordMessageSent
-      ? 'Application status updated and archived successfully. Discord notification sent.'
-      : 'Application status updated and archived successfully. Discord notification queued for delivery.'
+    const { application, discordMessageSent, roleAssignment, undoUntil } = result
+    const archived = application.status !== 'pending'
+    const notification = discordMessageSent === null
+      ? ''
+      : discordMessageSent ? ' Discord notification sent.' : ' Discord notification queued for delivery.'
+    const message = `Application ${archived ? 'status updated and archived' : 'moved'} successfully.${notification}`
 
-    return NextResponse.json({ message, discordMessageSent })
+    return NextResponse.json({ message, stage: application.stage, archived, discordMessageSent, roleAssignment, undoUntil })
   } catch (error) {
     console.error('Error updating application:', error)
     return NextResponse.json({ error: 'Failed to update application' }, { status: 500 })
   }
 }
-
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { isTransitionError, undoDecision } from '@/lib/decisions'
+import { requireApplicationPermission } from '@/lib/guards'
+
+export async function POST(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const { session, response } = await requireApplicationPermission('decide', id)
+    if (response) {
+      return response
+    }
+
+    const result = await undoDecision(id, { id: session.discord.id, username: session.discord.username })
+    if (isTransitionError(result)) {
+      return NextResponse.json({ error: result.message }, { status: result.error === 'notFound' ? 404 : 409 })
+    }
+
+    return NextResponse.json({ message: 'Decision undone successfully.', stage: result.application.stage })
+  } catch (error) {
+    console.error('Error undoing decision:', error)
+    return NextResponse.json({ error: 'Failed to undo decision' }, { status: 500 })
+  }
+}
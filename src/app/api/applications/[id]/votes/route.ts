@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { castVote, isDecision, isTransitionError } from '@/lib/decisions'
+import { requireApplicationPermission } from '@/lib/guards'
+import { hasPermission } from '@/lib/permissions'
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const { session, response } = await requireApplicationPermission('decide', id)
+    if (response) {
+      return response
+    }
+
+    const { decision, comment } = await req.json()
+    if (!isDecision(decision)) {
+      return NextResponse.json({ error: 'Decision must be approved or denied' }, { status: 400 })
+    }
+
+    const result = await castVote(
+      id,
+      decision,
+      typeof comment === 'string' && comment.trim() ? comment.trim() : undefined,
+      { id: session.discord.id, username: session.discord.username },
+      { veto: hasPermission(session.staffRole, 'veto') }
+    )
+    if (isTransitionError(result)) {
+      return NextResponse.json({ error: result.message }, { status: result.error === 'notFound' ? 404 : 409 })
+    }
+
+    const { tally, decision: outcome } = result
+    if (outcome && isTransitionError(outcome)) {
+      return NextResponse.json({ message: `Vote recorded. ${outcome.message}.`, tally, decided: false })
+    }
+
+    return NextResponse.json({
+      message: outcome ? `Vote recorded. The application has been ${tally.outcome}.` : 'Vote recorded.',
+      tally,
+      decided: !!outcome,
+      discordMessageSent: outcome?.discordMessageSent ?? null,
+      undoUntil: outcome?.undoUntil,
+    })
+  } catch (error) {
+    console.error('Error recording vote:', error)
+    return NextResponse.json({ error: 'Failed to record vote' }, { status: 500 })
+  }
+}
@@ -1,36 +1,24 @@
 import { NextResponse } from 'next/server'
-import fs from 'fs/promises'
-import path from 'path'
-import { getServerSession } from "next-auth"
-import { authOptions, isAdmin } from '@/lib/auth'
+import { filterReviewable } from '@/lib/application-types'
+import { requirePermission } from '@/lib/guards'
+import { hasPermission, redactApplication } from '@/lib/permissions'
+import { getApplicationStore } from '@/lib/storage'
 
-const archiveFilePath = path.join(process.cwd(), 'data', 'archived_applications.json')
-
-export async function GET() {
+// Archived applications of the types the staff member reviews, or only of
+// the type given as `?type=`.
+export async function GET(req: Request) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session?.discord) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    if (!isAdmin(session.discord.id)) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    const { session, response } = await requirePermission('viewApplications')
+    if (response) {
+      return response
     }
 
-    const dataDir = path.join(process.cwd(), 'data')
-    try {
-      await fs.access(dataDir)
-    } catch {
-      await fs.mkdir(dataDir, { recursive: true })
-    }
-
-    try {
-      const data = await fs.readFile(archiveFilePath, 'utf8')
-      return NextResponse.json(JSON.parse(data))
-    } catch {
-      await fs.writeFile(archiveFilePath, '[]', 'utf8')
-      return NextResponse.json([])
-    }
+    const typeId = new URL(req.url).searchParams.get('type')
+    const store = await getApplicationStore()
+    const archivedApplications = filterReviewable(await store.listArchived(), session.staffRole, typeId)
+    return NextResponse.json(
+      hasPermission(session.staffRole, 'viewPii') ? archivedApplications : archivedApplications.map(redactApplication)
+    )
   } catch (error) {
     console.error('Error in archive route:', error)
     return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 })
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getApplyEligibility } from '@/lib/reapplication'
+import { getApplicationStore } from '@/lib/storage'
+
+// Whether the signed-in user may submit an application of the type given
+// as `?type=`, so the form can say so before it is filled in.
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.discord) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const typeId = new URL(req.url).searchParams.get('type') ?? undefined
+    const store = await getApplicationStore()
+    return NextResponse.json(getApplyEligibility(await store.listByDiscordId(session.discord.id), typeId))
+  } catch (error) {
+    console.error('Error checking application eligibility:', error)
+    return NextResponse.json({ error: 'Failed to check application eligibility' }, { status: 500 })
+  }
+}
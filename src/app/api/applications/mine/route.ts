@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { toApplicantView } from '@/lib/applicant-view'
+import { authOptions } from '@/lib/auth'
+import { getApplyEligibilityByType } from '@/lib/reapplication'
+import { getApplicationStore } from '@/lib/storage'
+
+// The signed-in user's own applications, newest first, for the
+// "My Applications" page.
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.discord) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const store = await getApplicationStore()
+    const applications = await store.listByDiscordId(session.discord.id)
+    return NextResponse.json({
+      applications: applications
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+        .map(toApplicantView),
+      eligibility: getApplyEligibilityByType(applications),
+    })
+  } catch (error) {
+    console.error('Error reading own applications:', error)
+    return NextResponse.json({ error: 'Failed to read your applications' }, { status: 500 })
+  }
+}
@@ -1,28 +1,126 @@
+import { randomUUID } from 'crypto'
 import { NextResponse } from 'next/server'
-import fs from 'fs/promises'
-import path from 'path'
+import { getServerSession } from 'next-auth'
+import { filterReviewable, findApplicationType } from '@/lib/application-types'
+import { authOptions } from '@/lib/auth'
+import { findBlacklistEntries, toBlacklistMatch } from '@/lib/blacklist'
+import { applicationConfig } from '@/lib/config'
+import { postApplicationForReview } from '@/lib/discord-review'
+import { findDuplicates, getIdentifierKeys, toDuplicateMatch } from '@/lib/duplicates'
+import { validateSubmission, type ApplicationValidationErrors } from '@/lib/form-schema'
+import { requirePermission } from '@/lib/guards'
+import { getIntakeStatus } from '@/lib/intake'
+import { hasPermission, redactApplication } from '@/lib/permissions'
+import { getApplyEligibility } from '@/lib/reapplication'
+import { getInitialStage } from '@/lib/review-stages'
+import { getIntakeSettings } from '@/lib/settings'
+import { getApplicationStore, getBlacklistStore, type Application, type CreateCheck } from '@/lib/storage'
 
-const dataFilePath = path.join(process.cwd(), 'data', 'applications.json')
+// Thrown by the check passed to `store.create` when another submission got
+// in first, carrying the body of the 409 response.
+class SubmissionConflict extends Error {
+  constructor(readonly body: { error: string } & Record<string, unknown>) {
+    super(body.error)
+  }
+}
 
+// Submits an application of the type given as `?type=`, or of the first
+// type when it is left out.
 export async function POST(req: Request) {
   try {
-    const application = await req.json()
+    const session = await getServerSession(authOptions)
+    if (!session?.discord) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
 
-    let applications = []
-    try {
-      const data = await fs.readFile(dataFilePath, 'utf8')
-      applications = JSON.parse(data)
-    } catch {
+    const typeId = new URL(req.url).searchParams.get('type') ?? applicationConfig.applicationTypes[0].id
+    const applicationType = findApplicationType(typeId)
+    if (!applicationType) {
+      return NextResponse.json({ error: 'Unknown application type' }, { status: 404 })
     }
 
-    const newApplication = {
-      id: Date.now().toString(),
+    const store = await getApplicationStore()
+    const intakeSettings = await getIntakeSettings()
+    const intake = getIntakeStatus(intakeSettings, await store.countPending())
+    if (!intake.open) {
+      return NextResponse.json({ error: intake.message, intake }, { status: 403 })
+    }
+
+    const eligibility = getApplyEligibility(await store.listByDiscordId(session.discord.id), applicationType.id)
+    if (!eligibility.allowed) {
+      return NextResponse.json({ error: eligibility.message, eligibility }, { status: 403 })
+    }
+
+    const body = await req.json().catch(() => undefined)
+    if (body === undefined) {
+      const errors: ApplicationValidationErrors = { fieldErrors: {}, formErrors: ['The request body must be valid JSON.'] }
+      return NextResponse.json({ error: 'Invalid application', ...errors }, { status: 400 })
+    }
+
+    const result = validateSubmission(applicationType.id, body)
+    if (!result.success) {
+      return NextResponse.json({ error: 'Invalid application', ...result.errors }, { status: 400 })
+    }
+
+    const newApplication: Application = {
+      ...result.data,
+      id: randomUUID(),
       timestamp: new Date().toISOString(),
-      ...application
+      discord: session.discord,
+      applicationType: applicationType.id,
+      stage: getInitialStage().id
+    }
+
+    const blacklist = await getBlacklistStore()
+    const blacklisted = findBlacklistEntries(newApplication, await blacklist.list())
+    if (blacklisted.some((entry) => entry.action === 'reject')) {
+      console.log(`Rejected application from blacklisted user ${session.discord.id}`)
+      return NextResponse.json({ error: applicationConfig.blacklist.rejectionMessage }, { status: 403 })
+    }
+    if (blacklisted.length > 0) {
+      newApplication.blacklistMatches = blacklisted.map(toBlacklistMatch)
+    }
+
+    const duplicates = findDuplicates(newApplication, await store.listByIdentifiers(getIdentifierKeys(newApplication)))
+    if (duplicates.length > 0) {
+      newApplication.duplicates = duplicates
     }
-    applications.push(newApplication)
 
-    await fs.writeFile(dataFilePath, JSON.stringify(applications, null, 2))
+    // Checked again while the store holds its lock, as other applications,
+    // including one by the same user, may have come in since the checks above.
+    const check: CreateCheck = ({ pendingCount, ownApplications }) => {
+      const currentIntake = getIntakeStatus(intakeSettings, pendingCount)
+      if (!currentIntake.open) {
+        throw new SubmissionConflict({ error: currentIntake.message, intake: currentIntake })
+      }
+      const currentEligibility = getApplyEligibility(ownApplications, applicationType.id)
+      if (!currentEligibility.allowed) {
+        throw new SubmissionConflict({ error: currentEligibility.message, eligibility: currentEligibility })
+      }
+    }
+    try {
+      await store.create(newApplication, check)
+    } catch (error) {
+      if (error instanceof SubmissionConflict) {
+        return NextResponse.json(error.body, { status: 409 })
+      }
+      throw error
+    }
+
+    // Link the earlier applications back to this one as well.
+    for (const match of duplicates) {
+      const link = (application: Application) => ({
+        ...application,
+        duplicates: [...(application.duplicates ?? []), toDuplicateMatch(newApplication, match.matchedOn)],
+      })
+      if (match.status === 'pending') {
+        await store.updatePending(match.applicationId, link)
+      } else {
+        await store.updateArchived(match.applicationId, link)
+      }
+    }
+
+    await postApplicationForReview(newApplication)
 
     return NextResponse.json({ message: 'Application submitted successfully' })
   } catch (error) {
@@ -31,14 +129,23 @@ export async function POST(req: Request) {
   }
 }
 
-export async function GET() {
+// Pending applications of the types the staff member reviews, or only of
+// the type given as `?type=`.
+export async function GET(req: Request) {
   try {
-    const data = await fs.readFile(dataFilePath, 'utf8')
-    const applications = JSON.parse(data)
-    return NextResponse.json(applications)
+    const { session, response } = await requirePermission('viewApplications')
+    if (response) {
+      return response
+    }
+
+    const typeId = new URL(req.url).searchParams.get('type')
+    const store = await getApplicationStore()
+    const applications = filterReviewable(await store.listPending(), session.staffRole, typeId)
+    return NextResponse.json(
+      hasPermission(session.staffRole, 'viewPii') ? applications : applications.map(redactApplication)
+    )
   } catch (error) {
     console.error('Error reading applications:', error)
     return NextResponse.json({ error: 'Failed to read applications' }, { status: 500 })
   }
 }
-
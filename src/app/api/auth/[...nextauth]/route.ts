@@ -1,7 +1,11 @@
+import type { NextRequest } from "next/server"
 import NextAuth from "next-auth"
-import { authOptions } from "@/lib/auth"
+import { authOptions, withSavedToken } from "@/lib/auth"
 
-const handler = NextAuth(authOptions)
+const nextAuthHandler = NextAuth(authOptions)
 
-export { handler as GET, handler as POST }
+// Session reads through here may refresh the guild roles, see withSavedToken
+const handler = (req: NextRequest, context: { params: Promise<{ nextauth: string[] }> }) =>
+  withSavedToken(() => nextAuthHandler(req, context))
 
+export { handler as GET, handler as POST }
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/guards'
+import { getBlacklistStore } from '@/lib/storage'
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { response } = await requirePermission('manageBlacklist')
+    if (response) {
+      return response
+    }
+
+    const { id } = await params
+    const blacklist = await getBlacklistStore()
+    if (!(await blacklist.remove(id))) {
+      return NextResponse.json({ error: 'Blacklist entry not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'Blacklist entry removed successfully.' })
+  } catch (error) {
+    console.error('Error removing blacklist entry:', error)
+    return NextResponse.json({ error: 'Failed to remove blacklist entry' }, { status: 500 })
+  }
+}
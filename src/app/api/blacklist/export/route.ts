@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { isBlacklistEntryActive, toBlacklistExport } from '@/lib/blacklist'
+import { requirePermission } from '@/lib/guards'
+import { getBlacklistStore } from '@/lib/storage'
+
+// Downloads the active entries as a file partner servers can import.
+export async function GET() {
+  try {
+    const { response } = await requirePermission('manageBlacklist')
+    if (response) {
+      return response
+    }
+
+    const blacklist = await getBlacklistStore()
+    const entries = (await blacklist.list()).filter((entry) => isBlacklistEntryActive(entry))
+    return NextResponse.json(toBlacklistExport(entries), {
+      headers: {
+        'Content-Disposition': `attachment; filename="blacklist-${new Date().toISOString().slice(0, 10)}.json"`,
+      },
+    })
+  } catch (error) {
+    console.error('Error exporting blacklist:', error)
+    return NextResponse.json({ error: 'Failed to export blacklist' }, { status: 500 })
+  }
+}
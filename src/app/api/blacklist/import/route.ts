@@ -0,0 +1,47 @@
+import { randomUUID } from 'crypto'
+import { NextResponse } from 'next/server'
+import { blacklistExportSchema, getBlacklistKey, toBlacklistEntry } from '@/lib/blacklist'
+import { requirePermission } from '@/lib/guards'
+import { getBlacklistStore, type BlacklistEntry } from '@/lib/storage'
+
+// Adds the entries of an exported blacklist file. Values already on the
+// blacklist are skipped; imported entries are credited to the importer.
+export async function POST(req: Request) {
+  try {
+    const { session, response } = await requirePermission('manageBlacklist')
+    if (response) {
+      return response
+    }
+
+    const result = blacklistExportSchema.safeParse(await req.json())
+    if (!result.success) {
+      const issue = result.error.issues[0]
+      return NextResponse.json(
+        { error: `Invalid blacklist file${issue ? `: ${issue.path.join('.')} ${issue.message}` : ''}` },
+        { status: 400 }
+      )
+    }
+
+    const blacklist = await getBlacklistStore()
+    const addedBy = { id: session.discord.id, username: session.discord.username }
+    const seen = new Set((await blacklist.list()).map(getBlacklistKey))
+    const entries: BlacklistEntry[] = []
+    for (const input of result.data.entries) {
+      const entry = toBlacklistEntry(randomUUID(), input, addedBy)
+      if (entry.value && !seen.has(getBlacklistKey(entry))) {
+        seen.add(getBlacklistKey(entry))
+        entries.push(entry)
+      }
+    }
+
+    await blacklist.add(entries)
+    return NextResponse.json({
+      message: `Imported ${entries.length} entries, skipped ${result.data.entries.length - entries.length}.`,
+      imported: entries.length,
+      skipped: result.data.entries.length - entries.length,
+    })
+  } catch (error) {
+    console.error('Error importing blacklist:', error)
+    return NextResponse.json({ error: 'Failed to import blacklist' }, { status: 500 })
+  }
+}
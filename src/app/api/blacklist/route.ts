@@ -0,0 +1,53 @@
+import { randomUUID } from 'crypto'
+import { NextResponse } from 'next/server'
+import { blacklistEntryInputSchema, getBlacklistKey, toBlacklistEntry } from '@/lib/blacklist'
+import { requirePermission } from '@/lib/guards'
+import { getBlacklistStore } from '@/lib/storage'
+
+export async function GET() {
+  try {
+    const { response } = await requirePermission('manageBlacklist')
+    if (response) {
+      return response
+    }
+
+    const blacklist = await getBlacklistStore()
+    return NextResponse.json(await blacklist.list())
+  } catch (error) {
+    console.error('Error reading blacklist:', error)
+    return NextResponse.json({ error: 'Failed to read blacklist' }, { status: 500 })
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const { session, response } = await requirePermission('manageBlacklist')
+    if (response) {
+      return response
+    }
+
+    const result = blacklistEntryInputSchema.safeParse(await req.json())
+    if (!result.success) {
+      return NextResponse.json({ error: result.error.issues[0]?.message ?? 'Invalid blacklist entry' }, { status: 400 })
+    }
+
+    const entry = toBlacklistEntry(randomUUID(), result.data, {
+      id: session.discord.id,
+      username: session.discord.username,
+    })
+    if (!entry.value) {
+      return NextResponse.json({ error: 'Value is required' }, { status: 400 })
+    }
+
+    const blacklist = await getBlacklistStore()
+    if ((await blacklist.list()).some((existing) => getBlacklistKey(existing) === getBlacklistKey(entry))) {
+      return NextResponse.json({ error: 'This value is already on the blacklist' }, { status: 409 })
+    }
+
+    await blacklist.add([entry])
+    return NextResponse.json(entry)
+  } catch (error) {
+    console.error('Error adding blacklist entry:', error)
+    return NextResponse.json({ error: 'Failed to add blacklist entry' }, { status: 500 })
+  }
+}
@@ -1,9 +1,10 @@
 import { NextResponse } from 'next/server'
 import { getBotStatus, forceProcessQueue } from '@/lib/discord-bot'
+import { requirePermission } from '@/lib/guards'
 
 export async function GET() {
   try {
-    const status = getBotStatus()
+    const status = await getBotStatus()
     return NextResponse.json(status)
   } catch (error) {
     console.error('Error checking bot status:', error)
@@ -13,6 +14,11 @@ export async function GET() {
 
 export async function POST() {
   try {
+    const { response } = await requirePermission('editConfig')
+    if (response) {
+      return response
+    }
+
     forceProcessQueue()
     return NextResponse.json({ message: 'Queue processing triggered' })
   } catch (error) {
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { getIntakeStatus } from '@/lib/intake'
+import { getIntakeSettings } from '@/lib/settings'
+import { getApplicationStore } from '@/lib/storage'
+
+// Whether applications are open, so the home page can show the closed page
+// before anyone signs in.
+export async function GET() {
+  try {
+    const store = await getApplicationStore()
+    return NextResponse.json(getIntakeStatus(await getIntakeSettings(), await store.countPending()))
+  } catch (error) {
+    console.error('Error checking application intake:', error)
+    return NextResponse.json({ error: 'Failed to check application intake' }, { status: 500 })
+  }
+}
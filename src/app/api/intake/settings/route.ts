@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server'
+import { applicationConfig } from '@/lib/config'
+import { requirePermission } from '@/lib/guards'
+import { getIntakeStatus, intakeSettingsSchema } from '@/lib/intake'
+import { getIntakeSettings, saveIntakeSettings } from '@/lib/settings'
+import { getApplicationStore } from '@/lib/storage'
+
+export async function GET() {
+  try {
+    const { response } = await requirePermission('editConfig')
+    if (response) {
+      return response
+    }
+
+    const store = await getApplicationStore()
+    const pendingCount = await store.countPending()
+    const settings = await getIntakeSettings()
+    return NextResponse.json({
+      settings,
+      defaults: applicationConfig.intake,
+      status: getIntakeStatus(settings, pendingCount),
+      pendingCount,
+    })
+  } catch (error) {
+    console.error('Error reading intake settings:', error)
+    return NextResponse.json({ error: 'Failed to read intake settings' }, { status: 500 })
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const { response } = await requirePermission('editConfig')
+    if (response) {
+      return response
+    }
+
+    const result = intakeSettingsSchema.safeParse(await request.json())
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid intake settings',
+          errors: result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+        },
+        { status: 400 }
+      )
+    }
+
+    await saveIntakeSettings(result.data)
+
+    const store = await getApplicationStore()
+    const pendingCount = await store.countPending()
+    return NextResponse.json({
+      settings: result.data,
+      status: getIntakeStatus(result.data, pendingCount),
+      pendingCount,
+    })
+  } catch (error) {
+    console.error('Error saving intake settings:', error)
+    return NextResponse.json({ error: 'Failed to save intake settings' }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { resendMessage } from '@/lib/discord-bot'
+import { requirePermission } from '@/lib/guards'
+import { getOutboxStore } from '@/lib/storage'
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { response } = await requirePermission('editConfig')
+    if (response) {
+      return response
+    }
+
+    const { id } = await params
+    const outbox = await getOutboxStore()
+    const existing = await outbox.get(id)
+    if (!existing) {
+      return NextResponse.json({ error: 'Notification not found' }, { status: 404 })
+    }
+    if (existing.state !== 'failed' && existing.state !== 'dead') {
+      return NextResponse.json({ error: `Notification is already ${existing.state}` }, { status: 409 })
+    }
+
+    const message = await resendMessage(id)
+    return NextResponse.json({ message, sent: message?.state === 'sent' })
+  } catch (error) {
+    console.error('Error resending notification:', error)
+    return NextResponse.json({ error: 'Failed to resend notification' }, { status: 500 })
+  }
+}
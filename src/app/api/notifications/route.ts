@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/guards'
+import { getOutboxStore } from '@/lib/storage'
+
+export async function GET() {
+  try {
+    const { response } = await requirePermission('editConfig')
+    if (response) {
+      return response
+    }
+
+    const outbox = await getOutboxStore()
+    const messages = await outbox.list(['failed', 'dead'])
+    return NextResponse.json(messages)
+  } catch (error) {
+    console.error('Error reading notification outbox:', error)
+    return NextResponse.json({ error: 'Failed to read notifications' }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { findApplicationType } from '@/lib/application-types'
+import { requirePermission } from '@/lib/guards'
+import { templatePlaceholders, validateMessageTemplates } from '@/lib/message-templates'
+import { getDefaultMessageTemplates, getMessageTemplates, saveMessageTemplates } from '@/lib/settings'
+
+// Templates are per application type, picked with `?type=`; the first type
+// is used when it is left out.
+const getTypeParam = (request: Request) => new URL(request.url).searchParams.get('type')
+
+export async function GET(request: Request) {
+  try {
+    const { response } = await requirePermission('editConfig')
+    if (response) {
+      return response
+    }
+
+    const typeId = getTypeParam(request)
+    if (typeId && !findApplicationType(typeId)) {
+      return NextResponse.json({ error: 'Unknown application type' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      templates: await getMessageTemplates(typeId ?? undefined),
+      defaults: getDefaultMessageTemplates(typeId ?? undefined),
+      placeholders: templatePlaceholders,
+    })
+  } catch (error) {
+    console.error('Error reading message templates:', error)
+    return NextResponse.json({ error: 'Failed to read message templates' }, { status: 500 })
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const { response } = await requirePermission('editConfig')
+    if (response) {
+      return response
+    }
+
+    const typeId = getTypeParam(request)
+    if (typeId && !findApplicationType(typeId)) {
+      return NextResponse.json({ error: 'Unknown application type' }, { status: 404 })
+    }
+
+    const result = validateMessageTemplates(await request.json())
+    if (!result.success) {
+      return NextResponse.json({ error: 'Invalid message templates', errors: result.errors }, { status: 400 })
+    }
+
+    await saveMessageTemplates(result.data, typeId ?? undefined)
+    return NextResponse.json({ templates: result.data })
+  } catch (error) {
+    console.error('Error saving message templates:', error)
+    return NextResponse.json({ error: 'Failed to save message templates' }, { status: 500 })
+  }
+}
@@ -0,0 +1,186 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from "next-auth/react"
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { useToast } from '@/hooks/use-toast'
+import Link from 'next/link'
+import { motion } from 'framer-motion'
+import AuthButton from '@/app/components/auth-button'
+import type { ApplicantApplication } from '@/lib/applicant-view'
+import { applicationConfig } from '@/lib/config'
+import type { ApplyEligibility } from '@/lib/reapplication'
+
+const statusBadges = {
+  pending: { label: 'In Review', variant: 'secondary' },
+  approved: { label: 'Approved', variant: 'default' },
+  denied: { label: 'Denied', variant: 'destructive' },
+} as const
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+export default function MyApplications() {
+  const { data: session, status } = useSession()
+  const [applications, setApplications] = useState<ApplicantApplication[]>([])
+  const [eligibility, setEligibility] = useState<Record<string, ApplyEligibility> | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const { toast } = useToast()
+
+  const fetchApplications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/applications/mine')
+      if (!response.ok) {
+        throw new Error('Failed to fetch your applications')
+      }
+      const data = await response.json()
+      setApplications(data.applications)
+      setEligibility(data.eligibility)
+    } catch (error) {
+      console.error('Error fetching own applications:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch your applications. Please try again.',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchApplications()
+    }
+  }, [status, fetchApplications])
+
+  if (status === 'loading' || (session?.discord && isLoading)) {
+    return (
+      <div className="container mx-auto p-4 text-center">
+        Loading...
+      </div>
+    )
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="container mx-auto px-4 py-8 max-w-4xl"
+    >
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+        <div>
+          <h1 className="text-4xl font-bold tracking-tight mb-2">My Applications</h1>
+          <p className="text-muted-foreground">Follow your applications and see staff decisions</p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/">
+            <Button variant="outline" size="sm">Back to Home</Button>
+          </Link>
+        </div>
+      </div>
+
+      {!session?.discord ? (
+        <Card className="border-dashed border-2">
+          <CardContent className="flex flex-col items-center justify-center py-16 gap-4">
+            <p className="text-muted-foreground text-center max-w-md">
+              Sign in with Discord to see the applications you have submitted.
+            </p>
+            <AuthButton />
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {eligibility && (
+            <Card className="border-border/50 bg-muted/20">
+              <CardContent className="divide-y divide-border/50 p-0">
+                {applicationConfig.applicationTypes.map((type) => {
+                  const typeEligibility = eligibility[type.id]
+                  if (!typeEligibility) return null
+                  return (
+                    <div key={type.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-6">
+                      <p className="text-sm">
+                        <strong>{type.label}:</strong>{' '}
+                        {typeEligibility.allowed
+                          ? 'You can submit a new application.'
+                          : typeEligibility.reapplyAfter
+                            ? `You can apply again on ${formatDate(typeEligibility.reapplyAfter)}.`
+                            : typeEligibility.message}
+                      </p>
+                      {typeEligibility.allowed && (
+                        <Link href={`/apply/${type.id}`}>
+                          <Button size="sm">Apply Now</Button>
+                        </Link>
+                      )}
+                    </div>
+                  )
+                })}
+              </CardContent>
+            </Card>
+          )}
+
+          {applications.length === 0 ? (
+            <Card className="border-dashed">
+              <CardContent className="flex flex-col items-center justify-center py-16">
+                <h3 className="text-lg font-semibold mb-2">No applications yet</h3>
+                <p className="text-sm text-muted-foreground">Applications you submit will appear here</p>
+              </CardContent>
+            </Card>
+          ) : (
+            applications.map((application) => {
+              const badge = statusBadges[application.status]
+              return (
+                <Card key={application.id} className="border-border/50">
+                  <CardHeader className="flex flex-row items-start justify-between space-y-0 border-b border-border/50 bg-muted/20">
+                    <div>
+                      <CardTitle className="text-xl mb-1">{application.applicationType} Application</CardTitle>
+                      <p className="text-sm text-muted-foreground">Submitted {formatDate(application.timestamp)}</p>
+                      {application.status === 'pending' && (
+                        <p className="text-sm text-muted-foreground">Current stage: {application.stage}</p>
+                      )}
+                    </div>
+                    <Badge variant={badge.variant}>{badge.label}</Badge>
+                  </CardHeader>
+                  <CardContent className="p-6 space-y-4 text-sm">
+                    {application.decidedAt && (
+                      <p><strong>Decided:</strong> {formatDate(application.decidedAt)}</p>
+                    )}
+                    {application.statusReason && (
+                      <p className="whitespace-pre-wrap break-words"><strong>Reason:</strong> {application.statusReason}</p>
+                    )}
+                    {application.permanentBan && (
+                      <p><strong>Reapply:</strong> You cannot apply again.</p>
+                    )}
+                    {application.reapplyAfter && (
+                      <p><strong>Reapply:</strong> from {formatDate(application.reapplyAfter)}</p>
+                    )}
+                    <details>
+                      <summary className="cursor-pointer font-medium">Your answers</summary>
+                      <dl className="mt-4 space-y-3">
+                        {application.answers.map((answer) => (
+                          <div key={answer.name}>
+                            <dt className="text-xs font-medium text-muted-foreground uppercase tracking-wider">{answer.label}</dt>
+                            <dd className="whitespace-pre-wrap break-words">{answer.value}</dd>
+                          </div>
+                        ))}
+                      </dl>
+                    </details>
+                  </CardContent>
+                </Card>
+              )
+            })
+          )}
+        </div>
+      )}
+    </motion.div>
+  )
+}
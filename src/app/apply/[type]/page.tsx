@@ -0,0 +1,31 @@
+import { notFound } from 'next/navigation'
+import ApplicationTypeNav from '@/app/components/application-type-nav'
+import WhitelistForm from '@/app/components/whitelist-form'
+import { findApplicationType } from '@/lib/application-types'
+import { applicationConfig } from '@/lib/config'
+
+export const generateStaticParams = () => applicationConfig.applicationTypes.map((type) => ({ type: type.id }))
+
+export default async function ApplyPage({ params }: { params: Promise<{ type: string }> }) {
+  const applicationType = findApplicationType((await params).type)
+  if (!applicationType) {
+    notFound()
+  }
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-7xl">
+      <div className="flex flex-col items-center justify-center space-y-8 mb-12">
+        <div className="text-center space-y-4">
+          <h1 className="text-5xl md:text-6xl font-bold bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent tracking-tight">
+            {applicationType.label} Application
+          </h1>
+          <p className="text-lg text-muted-foreground max-w-2xl">
+            {applicationType.description} Complete the application below to get started.
+          </p>
+        </div>
+        <ApplicationTypeNav currentTypeId={applicationType.id} />
+      </div>
+      <WhitelistForm applicationTypeId={applicationType.id} />
+    </main>
+  )
+}
@@ -5,7 +5,7 @@ import type { Session } from "next-auth"
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Shield } from 'lucide-react'
-import { isAdmin } from '@/lib/auth'
+import { hasPermission } from '@/lib/permissions'
 
 type DiscordUser = {
   id: string
@@ -26,7 +26,7 @@ interface ExtendedSession extends Session {
 export default function AdminButton() {
   const { data: session } = useSession()
 
-  if (!(session as ExtendedSession)?.discord || !isAdmin((session as ExtendedSession).discord.id)) {
+  if (!(session as ExtendedSession)?.discord || !hasPermission(session?.staffRole, 'viewApplications')) {
     return null
   }
 
@@ -0,0 +1,61 @@
+import { formatAnswer, getApplicationFields } from '@/lib/application-types'
+import type { Application } from '@/lib/storage/types'
+
+export interface ApplicationAnswersProps {
+  application: Pick<Application, 'applicationType'> & Record<string, unknown>
+  canViewPii: boolean
+}
+
+const hasAnswer = (value: unknown) =>
+  value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0)
+
+// The answers of an application, laid out by the fields of its type. Fields
+// marked as `pii` are hidden without the viewPii permission.
+export default function ApplicationAnswers({ application, canViewPii }: ApplicationAnswersProps) {
+  const fields = getApplicationFields(application).filter(
+    (field) => (field.pii && !canViewPii) || hasAnswer(application[field.name])
+  )
+  const shortFields = fields.filter((field) => field.type !== 'textarea')
+  const longFields = fields.filter((field) => field.type === 'textarea')
+
+  return (
+    <>
+      {shortFields.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {shortFields.map((field) => {
+            const value = formatAnswer(field, application[field.name])
+            return (
+              <div key={field.name} className={field.type === 'url' ? 'space-y-1 sm:col-span-2' : 'space-y-1'}>
+                <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">{field.label}</p>
+                {field.pii && !canViewPii ? (
+                  <p className="text-base text-muted-foreground">Hidden</p>
+                ) : field.type === 'url' ? (
+                  <a href={value} target="_blank" rel="noopener noreferrer" className="text-base text-primary hover:underline break-all">
+                    {value}
+                  </a>
+                ) : (
+                  <p className={field.type === 'text' && field.pattern ? 'text-base font-mono text-sm' : 'text-base font-medium'}>{value}</p>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {longFields.length > 0 && (
+        <div className="space-y-3">
+          {longFields.map((field) => (
+            <div key={field.name}>
+              <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">{field.label}</p>
+              <div className="bg-muted/30 rounded-lg p-4 border border-border/30">
+                <p className="text-sm leading-relaxed whitespace-pre-wrap break-words">
+                  {field.pii && !canViewPii ? 'Hidden' : formatAnswer(field, application[field.name])}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,36 @@
+import { Button } from '@/components/ui/button'
+import { getReviewableTypes } from '@/lib/application-types'
+import type { StaffRole } from '@/lib/config'
+
+export interface ApplicationTypeFilterProps {
+  role: StaffRole | null | undefined
+  value: string | null
+  onChange: (typeId: string | null) => void
+}
+
+// Narrows the admin lists to one application type. Hidden when the staff
+// member reviews a single type only.
+export default function ApplicationTypeFilter({ role, value, onChange }: ApplicationTypeFilterProps) {
+  const types = getReviewableTypes(role)
+  if (types.length < 2) {
+    return null
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-6">
+      <Button variant={value === null ? 'default' : 'outline'} size="sm" onClick={() => onChange(null)}>
+        All Types
+      </Button>
+      {types.map((type) => (
+        <Button
+          key={type.id}
+          variant={value === type.id ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => onChange(type.id)}
+        >
+          {type.label}
+        </Button>
+      ))}
+    </div>
+  )
+}
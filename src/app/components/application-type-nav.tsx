@@ -0,0 +1,22 @@
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { applicationConfig } from '@/lib/config'
+
+// Links to the form of every application type, when there is more than one.
+export default function ApplicationTypeNav({ currentTypeId }: { currentTypeId: string }) {
+  if (applicationConfig.applicationTypes.length < 2) {
+    return null
+  }
+
+  return (
+    <div className="flex flex-wrap justify-center gap-2">
+      {applicationConfig.applicationTypes.map((type) => (
+        <Link key={type.id} href={`/apply/${type.id}`}>
+          <Button variant={type.id === currentTypeId ? 'default' : 'outline'} size="sm">
+            {type.label}
+          </Button>
+        </Link>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+'use client'
+
+import { getBlacklistTypeLabel } from '@/lib/blacklist'
+import type { BlacklistMatch } from '@/lib/storage/types'
+
+export interface BlacklistWarningsProps {
+  matches?: BlacklistMatch[]
+}
+
+// The matched values are left out since they may be PII.
+export default function BlacklistWarnings({ matches }: BlacklistWarningsProps) {
+  if (!matches || matches.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="rounded-lg border border-red-500/50 bg-red-500/10 p-3">
+      <p className="text-xs font-medium text-red-600 dark:text-red-400 uppercase tracking-wider mb-2">
+        Matches the blacklist
+      </p>
+      <ul className="space-y-1 text-sm">
+        {matches.map((match) => (
+          <li key={match.entryId}>
+            <span className="font-medium">{getBlacklistTypeLabel(match.type)}</span>
+            <span className="text-muted-foreground">: {match.reason}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
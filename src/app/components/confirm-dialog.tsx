@@ -0,0 +1,80 @@
+'use client'
+
+import { useEffect, type ReactNode } from 'react'
+import { AnimatePresence, motion } from 'framer-motion'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+
+export interface ConfirmDialogProps {
+  open: boolean
+  title: string
+  children: ReactNode
+  confirmLabel: string
+  confirmVariant?: 'default' | 'destructive'
+  busy?: boolean
+  confirmDisabled?: boolean
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+export default function ConfirmDialog({
+  open,
+  title,
+  children,
+  confirmLabel,
+  confirmVariant = 'default',
+  busy = false,
+  confirmDisabled = false,
+  onConfirm,
+  onCancel,
+}: ConfirmDialogProps) {
+  useEffect(() => {
+    if (!open) return
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onCancel()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [open, onCancel])
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
+          onClick={onCancel}
+        >
+          <motion.div
+            initial={{ scale: 0.95 }}
+            animate={{ scale: 1 }}
+            exit={{ scale: 0.95 }}
+            role="dialog"
+            aria-modal="true"
+            className="w-full max-w-xl"
+            onClick={(event) => event.stopPropagation()}
+          >
+            <Card className="max-h-[90vh] overflow-y-auto">
+              <CardHeader>
+                <CardTitle className="text-lg">{title}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {children}
+                <div className="flex justify-end gap-2 pt-2">
+                  <Button variant="outline" onClick={onCancel} disabled={busy}>
+                    Cancel
+                  </Button>
+                  <Button variant={confirmVariant} onClick={onConfirm} disabled={busy || confirmDisabled}>
+                    {confirmLabel}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,36 @@
+'use client'
+
+import type { DecisionRecord } from '@/lib/storage/types'
+
+export interface DecisionHistoryProps {
+  history?: DecisionRecord[]
+}
+
+export default function DecisionHistory({ history }: DecisionHistoryProps) {
+  if (!history || history.length === 0) {
+    return null
+  }
+
+  return (
+    <div>
+      <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">Earlier Decisions</p>
+      <ol className="space-y-2 text-sm">
+        {history.map((record, index) => (
+          <li key={index}>
+            <span className={record.status === 'approved' ? 'font-medium text-green-500' : 'font-medium text-red-500'}>
+              {record.status === 'approved' ? 'Approved' : 'Denied'}
+            </span>
+            <span className="text-muted-foreground">
+              {record.decidedBy && ` by ${record.decidedBy.username}`}
+              {record.decidedAt && ` on ${new Date(record.decidedAt).toLocaleString()}`}
+            </span>
+            {record.statusReason && <span className="text-muted-foreground"> ({record.statusReason})</span>}
+            <p className="text-muted-foreground">
+              Reopened by {record.reopenedBy.username} on {new Date(record.reopenedAt).toLocaleString()}: {record.reopenReason}
+            </p>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+'use client'
+
+import Link from 'next/link'
+import { getMatchLabel } from '@/lib/duplicates'
+import type { DuplicateMatch } from '@/lib/storage/types'
+
+export interface DuplicateWarningsProps {
+  duplicates?: DuplicateMatch[]
+}
+
+const statusClasses = {
+  pending: 'text-muted-foreground',
+  approved: 'text-green-500',
+  denied: 'text-red-500',
+}
+
+export default function DuplicateWarnings({ duplicates }: DuplicateWarningsProps) {
+  if (!duplicates || duplicates.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="rounded-lg border border-yellow-500/50 bg-yellow-500/10 p-3">
+      <p className="text-xs font-medium text-yellow-600 dark:text-yellow-400 uppercase tracking-wider mb-2">
+        Possible duplicate or alt account
+      </p>
+      <ul className="space-y-1 text-sm">
+        {duplicates.map((match) => (
+          <li key={match.applicationId}>
+            <Link
+              href={`${match.status === 'pending' ? '/admin/applications' : '/admin/archive'}#${match.applicationId}`}
+              className="font-medium underline underline-offset-2"
+            >
+              {match.discord.username}
+            </Link>
+            <span className={statusClasses[match.status]}> ({match.status})</span>
+            <span className="text-muted-foreground">
+              {' '}shares {match.matchedOn.map(getMatchLabel).join(', ')}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
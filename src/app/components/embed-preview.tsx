@@ -0,0 +1,36 @@
+'use client'
+
+import type { RenderedEmbed } from '@/lib/message-templates'
+
+export interface EmbedPreviewProps {
+  embed: RenderedEmbed
+}
+
+// Discord shows <t:unix:style> timestamps in the reader's locale.
+const formatTimestamps = (text: string) =>
+  text.replace(/<t:(\d+)(?::([tTdDfFR]))?>/g, (_match, seconds: string, style?: string) => {
+    const date = new Date(Number(seconds) * 1000)
+    return style === 'd' || style === 'D' ? date.toLocaleDateString() : date.toLocaleString()
+  })
+
+// Approximates how Discord renders an embed.
+export default function EmbedPreview({ embed }: EmbedPreviewProps) {
+  return (
+    <div
+      className="rounded-md bg-[#2b2d31] p-4 text-sm text-[#dbdee1] border-l-4"
+      style={{ borderLeftColor: /^#[0-9a-fA-F]{6}$/.test(embed.color) ? embed.color : undefined }}
+    >
+      <p className="font-semibold text-white mb-2">{formatTimestamps(embed.title)}</p>
+      <p className="whitespace-pre-wrap mb-3">{formatTimestamps(embed.description)}</p>
+      <div className="grid grid-cols-3 gap-3">
+        {embed.fields.map((field, index) => (
+          <div key={index} className={field.inline ? 'col-span-1' : 'col-span-3'}>
+            <p className="font-semibold text-white">{formatTimestamps(field.name)}</p>
+            <p className="whitespace-pre-wrap">{formatTimestamps(field.value)}</p>
+          </div>
+        ))}
+      </div>
+      {embed.footer && <p className="text-xs text-[#949ba4] mt-3">{formatTimestamps(embed.footer)}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+import { Card, CardContent } from '@/components/ui/card'
+import type { IntakeClosedReason, IntakeStatus } from '@/lib/intake'
+
+const closedTitles: Record<IntakeClosedReason, string> = {
+  closed: 'Applications Are Closed',
+  notYetOpen: 'Applications Open Soon',
+  ended: 'Applications Are Closed',
+  full: 'Applications Are Full',
+}
+
+// Shown instead of the form while intake is closed.
+export default function IntakeClosed({ intake }: { intake: Exclude<IntakeStatus, { open: true }> }) {
+  return (
+    <Card className="border-dashed border-2">
+      <CardContent className="flex flex-col items-center justify-center py-16 text-center">
+        <svg className="w-20 h-20 text-muted-foreground/30 mb-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        <h3 className="text-2xl font-bold mb-2">{closedTitles[intake.reason]}</h3>
+        <p className="text-muted-foreground max-w-md">{intake.message}</p>
+        {intake.reason === 'full' && (
+          <p className="text-sm text-muted-foreground max-w-md mt-4">
+            We have received as many applications as staff can review for now. Applications reopen once some have been reviewed.
+          </p>
+        )}
+        {intake.nextOpening && (
+          <p className="text-sm font-medium mt-4">
+            Next opening: {new Date(intake.nextOpening).toLocaleString()}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,8 +1,14 @@
 'use client'
 
 import { SessionProvider as NextAuthSessionProvider } from "next-auth/react"
+import { applicationConfig } from "@/lib/config"
 
+// The session is fetched again every staffRoleRefreshMinutes, which is when
+// the guild roles are re-read.
 export function SessionProvider({ children }: { children: React.ReactNode }) {
-  return <NextAuthSessionProvider>{children}</NextAuthSessionProvider>
+  return (
+    <NextAuthSessionProvider refetchInterval={applicationConfig.staffRoleRefreshMinutes * 60}>
+      {children}
+    </NextAuthSessionProvider>
+  )
 }
-
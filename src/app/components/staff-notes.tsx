@@ -0,0 +1,157 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { useToast } from '@/hooks/use-toast'
+import { mentionPattern } from '@/lib/mentions'
+import type { StaffNote } from '@/lib/storage/types'
+
+export interface StaffNotesProps {
+  applicationId: string
+  notes?: StaffNote[]
+  currentUser: { id: string; username: string }
+  canWrite: boolean
+  onChange: () => void
+}
+
+// Highlights @mentions, and mentions of the signed-in user in particular.
+function NoteBody({ body, username }: { body: string; username: string }) {
+  const parts = body.split(new RegExp(mentionPattern.source, 'gi'))
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words">
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <span
+            key={index}
+            className={part.toLowerCase() === username.toLowerCase() ? 'rounded bg-primary/20 px-1 font-medium' : 'font-medium text-primary'}
+          >
+            @{part}
+          </span>
+        ) : (
+          part
+        )
+      )}
+    </p>
+  )
+}
+
+export default function StaffNotes({ applicationId, notes = [], currentUser, canWrite, onChange }: StaffNotesProps) {
+  const [draft, setDraft] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editDraft, setEditDraft] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  const saveNote = async (noteId: string | null, body: string) => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/applications/${applicationId}/notes${noteId ? `/${noteId}` : ''}`, {
+        method: noteId ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ body }),
+        credentials: 'include',
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to save note')
+      }
+
+      if (noteId) {
+        setEditingId(null)
+      } else {
+        setDraft('')
+      }
+      onChange()
+    } catch (error) {
+      console.error('Error saving staff note:', error)
+      toast({
+        title: 'Note Error',
+        description: error instanceof Error ? error.message : 'There was an error saving the note.',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+        Staff Notes {notes.length > 0 && `(${notes.length})`}
+      </p>
+
+      {notes.map((note) => (
+        <div key={note.id} className="rounded-lg border border-border/30 bg-muted/30 p-3 space-y-2">
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>
+              <span className="font-medium text-foreground">{note.author.username}</span>
+              {' · '}{new Date(note.createdAt).toLocaleString()}
+              {note.updatedAt && ' · edited'}
+            </span>
+            {canWrite && note.author.id === currentUser.id && editingId !== note.id && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setEditingId(note.id)
+                  setEditDraft(note.body)
+                }}
+              >
+                Edit
+              </Button>
+            )}
+          </div>
+
+          {editingId === note.id ? (
+            <div className="space-y-2">
+              <Textarea value={editDraft} onChange={(e) => setEditDraft(e.target.value)} rows={3} className="bg-background" />
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => saveNote(note.id, editDraft)} disabled={isSaving || !editDraft.trim()}>
+                  Save
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <NoteBody body={note.body} username={currentUser.username} />
+          )}
+
+          {note.edits && note.edits.length > 0 && (
+            <details className="text-xs text-muted-foreground">
+              <summary className="cursor-pointer">Edit history ({note.edits.length})</summary>
+              <ul className="mt-2 space-y-2">
+                {note.edits.map((edit, index) => (
+                  <li key={index}>
+                    <p>Replaced {new Date(edit.editedAt).toLocaleString()}:</p>
+                    <p className="whitespace-pre-wrap break-words">{edit.body}</p>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      ))}
+
+      {canWrite && (
+        <div className="space-y-2">
+          <Textarea
+            placeholder="Add a note for other staff. Use @username to mention a reviewer..."
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={2}
+            className="bg-background"
+          />
+          <Button size="sm" variant="outline" onClick={() => saveNote(null, draft)} disabled={isSaving || !draft.trim()}>
+            Add Note
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+'use client'
+
+import { getStage } from '@/lib/review-stages'
+import type { StageTransition } from '@/lib/storage/types'
+
+export interface StageHistoryProps {
+  history?: StageTransition[]
+}
+
+const stageLabel = (id: string) => getStage(id)?.label ?? id
+
+export default function StageHistory({ history }: StageHistoryProps) {
+  if (!history || history.length === 0) {
+    return null
+  }
+
+  return (
+    <div>
+      <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">Review History</p>
+      <ol className="space-y-1 text-sm">
+        {history.map((transition, index) => (
+          <li key={index}>
+            <span className="font-medium">{stageLabel(transition.from)} → {stageLabel(transition.to)}</span>
+            <span className="text-muted-foreground">
+              {' '}by {transition.by.username} on {new Date(transition.at).toLocaleString()}
+            </span>
+            {transition.reason && <span className="text-muted-foreground"> ({transition.reason})</span>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
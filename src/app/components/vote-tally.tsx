@@ -0,0 +1,43 @@
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import { getVoteTally } from '@/lib/voting'
+import type { Vote } from '@/lib/storage/types'
+
+export interface VoteTallyProps {
+  votes?: Vote[]
+}
+
+export default function VoteTally({ votes }: VoteTallyProps) {
+  if (!votes || votes.length === 0) {
+    return null
+  }
+
+  const tally = getVoteTally(votes)
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Votes</p>
+        <Badge variant="secondary">✅ {tally.approved}</Badge>
+        <Badge variant="secondary">❌ {tally.denied}</Badge>
+        <span className="text-xs text-muted-foreground">
+          {tally.total}/{tally.quorum} for quorum
+          {tally.vetoedBy && ` · vetoed by ${tally.vetoedBy.username}`}
+        </span>
+      </div>
+      <ul className="space-y-1 text-sm">
+        {votes.map((vote) => (
+          <li key={vote.reviewer.id}>
+            <span className="font-medium">{vote.reviewer.username}</span>
+            <span className={vote.decision === 'approved' ? 'text-green-500' : 'text-red-500'}>
+              {' '}{vote.decision === 'approved' ? 'approve' : vote.veto ? 'deny (veto)' : 'deny'}
+            </span>
+            <span className="text-muted-foreground"> · {new Date(vote.at).toLocaleString()}</span>
+            {vote.comment && <p className="text-muted-foreground whitespace-pre-wrap break-words">{vote.comment}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
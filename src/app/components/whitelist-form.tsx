@@ -1,9 +1,8 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { useForm } from 'react-hook-form'
-import * as z from 'zod'
+import { useForm, type ControllerRenderProps } from 'react-hook-form'
 import { useSession } from 'next-auth/react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader } from '@/components/ui/card'
@@ -19,11 +18,23 @@ import {
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { useToast } from '@/hooks/use-toast'
+import Link from 'next/link'
 import AuthButton from './auth-button'
 import AdminButton from './admin-button'
 import ProfileCard from './profile-card'
+import IntakeClosed from './intake-closed'
 import { motion, AnimatePresence } from 'framer-motion'
-import { applicationConfig, getMinimumAge } from '@/lib/config'
+import {
+  applicationConfig,
+  getApplicationTypeConfig,
+  type ApplicationTypeConfig,
+  type FormFieldConfig,
+  type FormSectionConfig,
+} from '@/lib/config'
+import { getVisibleSections } from '@/lib/form-conditions'
+import { getFormSchema, type ApplicationFormValues, type ApplicationValidationErrors } from '@/lib/form-schema'
+import type { IntakeStatus } from '@/lib/intake'
+import type { ApplyEligibility } from '@/lib/reapplication'
 
 interface DiscordUser {
   id: string
@@ -41,53 +52,24 @@ interface ExtendedSession {
   discord?: DiscordUser
 }
 
-const generateFormSchema = () => {
-  const schema: Record<string, z.ZodType> = {}
-
-  applicationConfig.sections.forEach(section => {
-    section.fields.forEach(field => {
-      let fieldSchema: z.ZodType
-
-      switch (field.type) {
-        case 'text':
-          fieldSchema = z.string()
-          if (field.minLength) {
-            fieldSchema = (fieldSchema as z.ZodString).min(field.minLength, field.validationMessage)
-          }
-          if (field.pattern) {
-            fieldSchema = (fieldSchema as z.ZodString).regex(new RegExp(field.pattern), field.validationMessage)
-          }
-          break
-        case 'number':
-          fieldSchema = z.number().min(getMinimumAge(), applicationConfig.messages.ageRequirement)
-          break
-        case 'url':
-          fieldSchema = z.string().url(field.validationMessage)
-          break
-        case 'textarea':
-          fieldSchema = z.string()
-          if (field.minLength) {
-            fieldSchema = (fieldSchema as z.ZodString).min(field.minLength, field.validationMessage)
-          }
-          break
-        default:
-          fieldSchema = z.string()
-      }
-
-      schema[field.name] = field.required ? fieldSchema : fieldSchema.optional()
-    })
-  })
-
-  return z.object(schema)
+const getDefaultValue = (field: FormFieldConfig, applicationType: ApplicationTypeConfig) => {
+  switch (field.type) {
+    case 'number':
+      return applicationType.minimumAge
+    case 'multiselect':
+      return []
+    case 'checkbox':
+      return false
+    default:
+      return ''
+  }
 }
 
-const formSchema = generateFormSchema()
-
-const generateDefaultValues = () => {
-  const defaults: Record<string, string | number> = {}
-  applicationConfig.sections.forEach(section => {
+const generateDefaultValues = (applicationType: ApplicationTypeConfig) => {
+  const defaults: Record<string, string | number | boolean | string[]> = {}
+  applicationType.sections.forEach(section => {
     section.fields.forEach(field => {
-      defaults[field.name] = field.type === 'number' ? getMinimumAge() : ''
+      defaults[field.name] = getDefaultValue(field, applicationType)
     })
   })
   return defaults
@@ -99,13 +81,153 @@ const CharacterCount = ({ current, required }: { current: number; required: numb
   </span>
 )
 
+const selectClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-base ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 md:text-sm'
+
+const inputTypes: Partial<Record<FormFieldConfig['type'], string>> = {
+  number: 'number',
+  email: 'email',
+  date: 'date',
+}
+
+// Returns an element rather than a component so FormControl can pass its
+// id and aria attributes straight to it.
+const renderControl = (
+  field: FormFieldConfig,
+  formField: ControllerRenderProps<ApplicationFormValues, string>
+) => {
+  switch (field.type) {
+    case 'textarea':
+      return (
+        <Textarea
+          placeholder={field.placeholder}
+          className="min-h-[120px] bg-background resize-none"
+          {...formField}
+        />
+      )
+    case 'select':
+      return (
+        <select className={selectClassName} {...formField}>
+          <option value="" disabled>{field.placeholder || 'Choose an option'}</option>
+          {field.options.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      )
+    case 'radio':
+      return (
+        <div role="radiogroup" className="flex flex-wrap gap-x-6 gap-y-2 pt-2">
+          {field.options.map((option) => (
+            <label key={option.value} className="flex items-center gap-2 text-sm">
+              <input
+                type="radio"
+                name={formField.name}
+                value={option.value}
+                checked={formField.value === option.value}
+                onChange={() => formField.onChange(option.value)}
+                onBlur={formField.onBlur}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      )
+    case 'multiselect': {
+      const selected: string[] = formField.value ?? []
+      return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 pt-2">
+          {field.options.map((option) => (
+            <label key={option.value} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={selected.includes(option.value)}
+                onChange={(e) => formField.onChange(
+                  e.target.checked ? [...selected, option.value] : selected.filter((value) => value !== option.value)
+                )}
+                onBlur={formField.onBlur}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      )
+    }
+    case 'checkbox':
+      return (
+        <input
+          type="checkbox"
+          className="mt-0.5 h-4 w-4"
+          name={formField.name}
+          ref={formField.ref}
+          checked={!!formField.value}
+          onChange={(e) => formField.onChange(e.target.checked)}
+          onBlur={formField.onBlur}
+        />
+      )
+    default:
+      return (
+        <Input
+          type={inputTypes[field.type] ?? 'text'}
+          placeholder={field.placeholder}
+          min={field.type === 'date' ? field.min : undefined}
+          max={field.type === 'date' ? field.max : undefined}
+          className={field.type === 'text' && field.pattern ? 'bg-background font-mono text-sm' : 'bg-background'}
+          {...formField}
+          onChange={(e) => field.type === 'number'
+            ? formField.onChange(e.target.value ? parseInt(e.target.value, 10) : '')
+            : formField.onChange(e)
+          }
+        />
+      )
+  }
+}
+
+// Text areas, multiselects and checkboxes take the full width; other fields
+// sit two to a row. A checkbox is labelled by the text next to it.
+const FormFieldInput = ({
+  field,
+  form,
+}: {
+  field: FormFieldConfig
+  form: ReturnType<typeof useForm<ApplicationFormValues>>
+}) => (
+  <FormField
+    control={form.control}
+    name={field.name}
+    render={({ field: formField }) => (
+      <FormItem className={['textarea', 'multiselect', 'checkbox'].includes(field.type) ? 'md:col-span-2' : undefined}>
+        {field.type === 'checkbox' ? (
+          <div className="flex items-start gap-3">
+            <FormControl>{renderControl(field, formField)}</FormControl>
+            <FormLabel className="text-sm font-medium leading-snug">{field.label}</FormLabel>
+          </div>
+        ) : (
+          <>
+            <FormLabel className="text-sm font-medium">{field.label}</FormLabel>
+            <FormControl>{renderControl(field, formField)}</FormControl>
+          </>
+        )}
+        {field.type === 'textarea' ? (
+          <FormDescription className="text-xs flex justify-between">
+            <span>{field.description}</span>
+            <CharacterCount current={formField.value.length} required={field.minLength || 0} />
+          </FormDescription>
+        ) : (
+          <FormDescription className="text-xs">{field.description}</FormDescription>
+        )}
+        <FormMessage />
+      </FormItem>
+    )}
+  />
+)
+
 const FormSection = ({
   section,
   form,
   delay
 }: {
-  section: typeof applicationConfig.sections[0]
-  form: ReturnType<typeof useForm<z.infer<typeof formSchema>>>
+  section: FormSectionConfig
+  form: ReturnType<typeof useForm<ApplicationFormValues>>
   delay: number
 }) => (
   <motion.div
@@ -121,105 +243,83 @@ const FormSection = ({
       <h3 className="text-lg font-semibold">{section.title}</h3>
     </div>
 
-    {section.id === 'personal' && (
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        {section.fields.map((field) => (
-          <FormField
-            key={field.name}
-            control={form.control}
-            name={field.name}
-            render={({ field: formField }) => (
-              <FormItem>
-                <FormLabel className="text-sm font-medium">{field.label}</FormLabel>
-                <FormControl>
-                  <Input
-                    type={field.type === 'number' ? 'number' : 'text'}
-                    placeholder={field.placeholder}
-                    className="bg-background"
-                    {...formField}
-                    onChange={(e) => field.type === 'number'
-                      ? formField.onChange(e.target.value ? parseInt(e.target.value, 10) : '')
-                      : formField.onChange(e)
-                    }
-                  />
-                </FormControl>
-                <FormDescription className="text-xs">{field.description}</FormDescription>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-        ))}
-      </div>
-    )}
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {section.fields.map((field) => (
+        <FormFieldInput key={field.name} field={field} form={form} />
+      ))}
+    </div>
+  </motion.div>
+)
 
-    {section.id === 'auth' && (
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        {section.fields.map((field, index) => (
-          <FormField
-            key={field.name}
-            control={form.control}
-            name={field.name}
-            render={({ field: formField }) => (
-              <FormItem>
-                <FormLabel className="text-sm font-medium">{field.label}</FormLabel>
-                <FormControl>
-                  <Input
-                    placeholder={field.placeholder}
-                    className={index === 0 ? "bg-background font-mono text-sm" : "bg-background text-sm"}
-                    {...formField}
-                  />
-                </FormControl>
-                <FormDescription className="text-xs">{field.description}</FormDescription>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-        ))}
-      </div>
-    )}
+const blockedTitles = {
+  pending: 'Application Under Review',
+  cooldown: 'Not Yet Eligible',
+  banned: 'Not Eligible',
+}
 
-    {section.id === 'roleplay' && (
-      <div className="space-y-6">
-        {section.fields.map((field) => (
-          <FormField
-            key={field.name}
-            control={form.control}
-            name={field.name}
-            render={({ field: formField }) => (
-              <FormItem>
-                <FormLabel className="text-sm font-medium">{field.label}</FormLabel>
-                <FormControl>
-                  <Textarea
-                    placeholder={field.placeholder}
-                    className="min-h-[120px] bg-background resize-none"
-                    {...formField}
-                  />
-                </FormControl>
-                <FormDescription className="text-xs flex justify-between">
-                  <span>{field.description}</span>
-                  <CharacterCount current={formField.value.length} required={field.minLength || 0} />
-                </FormDescription>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-        ))}
-      </div>
-    )}
-  </motion.div>
+// Shown instead of the form when the applicant cannot apply right now.
+const ApplyBlocked = ({ eligibility }: { eligibility: Exclude<ApplyEligibility, { allowed: true }> }) => (
+  <Card className="border-border/50">
+    <CardContent className="flex flex-col items-center justify-center py-16 text-center">
+      <h3 className="text-2xl font-bold mb-2">{blockedTitles[eligibility.reason]}</h3>
+      <p className="text-muted-foreground max-w-md">
+        {eligibility.reapplyAfter
+          ? `Your last application was denied. You can apply again on ${new Date(eligibility.reapplyAfter).toLocaleString()}.`
+          : eligibility.message}
+      </p>
+      <Link href="/applications" className="mt-6">
+        <Button variant="outline">View My Applications</Button>
+      </Link>
+    </CardContent>
+  </Card>
 )
 
-export default function WhitelistForm() {
+export default function WhitelistForm({ applicationTypeId }: { applicationTypeId?: string }) {
+  const applicationType = getApplicationTypeConfig(applicationTypeId)
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [eligibility, setEligibility] = useState<ApplyEligibility | null>(null)
+  const [intake, setIntake] = useState<IntakeStatus | null>(null)
   const { data: session } = useSession()
   const { toast } = useToast()
+  const discordId = (session as ExtendedSession)?.discord?.id
+
+  const checkEligibility = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/applications/eligibility?type=${applicationType.id}`)
+      setEligibility(response.ok ? await response.json() : null)
+    } catch (error) {
+      console.error('Error checking application eligibility:', error)
+    }
+  }, [applicationType.id])
+
+  useEffect(() => {
+    const checkIntake = async () => {
+      try {
+        const response = await fetch('/api/intake')
+        setIntake(response.ok ? await response.json() : null)
+      } catch (error) {
+        console.error('Error checking application intake:', error)
+      }
+    }
+    checkIntake()
+  }, [])
+
+  useEffect(() => {
+    if (discordId) {
+      checkEligibility()
+    }
+  }, [discordId, checkEligibility])
 
-  const form = useForm<z.infer<typeof formSchema>>({
-    resolver: zodResolver(formSchema),
-    defaultValues: generateDefaultValues(),
+  const form = useForm<ApplicationFormValues>({
+    resolver: zodResolver(getFormSchema(applicationType.id)),
+    defaultValues: generateDefaultValues(applicationType),
   })
 
-  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+  // Re-evaluated as the applicant answers, so conditional questions appear
+  // and disappear right away.
+  const visibleSections = getVisibleSections(applicationType, form.watch())
+
+  const onSubmit = async (values: ApplicationFormValues) => {
     if (!(session as ExtendedSession)?.discord) {
       toast({
         title: 'Authentication Required',
@@ -231,18 +331,13 @@ export default function WhitelistForm() {
 
     setIsSubmitting(true)
 
-    const applicationData = {
-      ...values,
-      discord: (session as ExtendedSession).discord,
-    }
-
     try {
-      const response = await fetch('/api/applications', {
+      const response = await fetch(`/api/applications?type=${applicationType.id}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(applicationData),
+        body: JSON.stringify(values),
       })
 
       if (response.ok) {
@@ -251,6 +346,32 @@ export default function WhitelistForm() {
           description: applicationConfig.ui.successDescription,
         })
         form.reset()
+        checkEligibility()
+      } else if (response.status === 403 || response.status === 409) {
+        const data = await response.json()
+        if (data.intake) {
+          setIntake(data.intake)
+        }
+        if (data.eligibility) {
+          setEligibility(data.eligibility)
+        }
+        toast({
+          title: applicationConfig.ui.errorTitle,
+          description: data.error,
+          variant: 'destructive',
+        })
+      } else if (response.status === 400) {
+        const { fieldErrors, formErrors }: ApplicationValidationErrors = await response.json()
+        Object.entries(fieldErrors).forEach(([name, messages]) => {
+          if (messages?.length) {
+            form.setError(name, { type: 'server', message: messages[0] })
+          }
+        })
+        toast({
+          title: applicationConfig.ui.errorTitle,
+          description: formErrors[0] || 'Please correct the highlighted fields and try again.',
+          variant: 'destructive',
+        })
       } else {
         throw new Error('Failed to submit application')
       }
@@ -275,10 +396,23 @@ export default function WhitelistForm() {
     >
       <div className={`mb-8 ${session ? 'flex justify-end gap-4' : 'flex justify-center'}`}>
         <AuthButton />
+        {session && (
+          <Link href="/applications">
+            <Button variant="outline">My Applications</Button>
+          </Link>
+        )}
         {session && <AdminButton />}
       </div>
       <AnimatePresence>
-        {(session as ExtendedSession)?.discord ? (
+        {intake && !intake.open ? (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ duration: 0.3 }}
+          >
+            <IntakeClosed intake={intake} />
+          </motion.div>
+        ) : (session as ExtendedSession)?.discord ? (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -292,58 +426,69 @@ export default function WhitelistForm() {
               </div>
             </div>
             <div className="lg:col-span-2">
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
-                  <Card className="border-border/50">
-                    <CardHeader className="border-b border-border/50 bg-muted/20">
-                      <div className="space-y-1">
-                        <h2 className="text-3xl font-bold tracking-tight">{applicationConfig.ui.formTitle}</h2>
-                        <p className="text-sm text-muted-foreground">{applicationConfig.ui.formDescription}</p>
-                      </div>
-                    </CardHeader>
-                    <CardContent className="p-6 space-y-8">
-                      {applicationConfig.sections.map((section, index) => (
-                        <FormSection
-                          key={section.id}
-                          section={section}
-                          form={form}
-                          delay={0.1 + index * 0.1}
-                        />
-                      ))}
-                    </CardContent>
-                  </Card>
+              {eligibility && !eligibility.allowed ? (
+                <ApplyBlocked eligibility={eligibility} />
+              ) : (
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+                    <Card className="border-border/50">
+                      <CardHeader className="border-b border-border/50 bg-muted/20">
+                        <div className="space-y-1">
+                          <h2 className="text-3xl font-bold tracking-tight">
+                            {applicationType.label} {applicationConfig.ui.formTitle}
+                          </h2>
+                          <p className="text-sm text-muted-foreground">{applicationConfig.ui.formDescription}</p>
+                          {intake?.open && intake.closesAt && (
+                            <p className="text-sm font-medium">
+                              Applications close {new Date(intake.closesAt).toLocaleString()}
+                            </p>
+                          )}
+                        </div>
+                      </CardHeader>
+                      <CardContent className="p-6 space-y-8">
+                        {visibleSections.map((section, index) => (
+                          <FormSection
+                            key={section.id}
+                            section={section}
+                            form={form}
+                            delay={0.1 + index * 0.1}
+                          />
+                        ))}
+                      </CardContent>
+                    </Card>
 
-                  <motion.div
-                    initial={{ opacity: 0 }}
-                    animate={{ opacity: 1 }}
-                    transition={{ delay: 0.4, duration: 0.3 }}
-                  >
-                    <Button
-                      type="submit"
-                      disabled={isSubmitting}
-                      className="w-full h-12 text-base font-semibold"
-                      size="lg"
+                    <motion.div
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      transition={{ delay: 0.4, duration: 0.3 }}
                     >
-                      {isSubmitting ? (
-                        <>
-                          <svg className="animate-spin -ml-1 mr-3 h-5 w-5" fill="none" viewBox="0 0 24 24">
-                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                          </svg>
-                          {applicationConfig.ui.submittingButtonText}
-                        </>
-                      ) : (
-                        <>
-                          <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
-                          </svg>
-                          {applicationConfig.ui.submitButtonText}
-                        </>
-                      )}
-                    </Button>
-                  </motion.div>
-                </form>
-              </Form>
+                      <Button
+                        type="submit"
+                        disabled={isSubmitting}
+                        className="w-full h-12 text-base font-semibold"
+                        size="lg"
+                      >
+                        {isSubmitting ? (
+                          <>
+                            <svg className="animate-spin -ml-1 mr-3 h-5 w-5" fill="none" viewBox="0 0 24 24">
+                              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                            </svg>
+                            {applicationConfig.ui.submittingButtonText}
+                          </>
+                        ) : (
+                          <>
+                            <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            </svg>
+                            {applicationConfig.ui.submitButtonText}
+                          </>
+                        )}
+                      </Button>
+                    </motion.div>
+                  </form>
+                </Form>
+              )}
             </div>
           </motion.div>
         ) : (
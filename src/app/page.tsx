@@ -1,4 +1,9 @@
+import ApplicationTypeNav from './components/application-type-nav'
 import WhitelistForm from './components/whitelist-form'
+import { applicationConfig } from '@/lib/config'
+
+// The first application type is applied for on the home page as well.
+const defaultType = applicationConfig.applicationTypes[0]
 
 export default function Home() {
   return (
@@ -12,8 +17,9 @@ export default function Home() {
             Apply to join our exclusive roleplay server. Complete the application below to get started.
           </p>
         </div>
+        <ApplicationTypeNav currentTypeId={defaultType.id} />
       </div>
-      <WhitelistForm />
+      <WhitelistForm applicationTypeId={defaultType.id} />
     </main>
   )
 }
@@ -0,0 +1,44 @@
+import { formatAnswer, getApplicationFields, getApplicationType } from './application-types'
+import { getDenialRestriction } from './reapplication'
+import { getApplicationStage } from './review-stages'
+import type { Application, ApplicationStatus } from './storage/types'
+
+// What an applicant may see of their own application. Built field by field so
+// staff-only data (notes, votes, claims, reviewer names, duplicate and
+// blacklist warnings) never reaches them.
+export type ApplicantApplication = {
+  id: string
+  timestamp: string
+  // Label of the application type
+  applicationType: string
+  status: ApplicationStatus
+  stage: string
+  // Set once the application is decided
+  statusReason?: string
+  decidedAt?: string
+  reapplyAfter?: string
+  permanentBan?: boolean
+  answers: { name: string; label: string; value: string }[]
+}
+
+export function toApplicantView(application: Application): ApplicantApplication {
+  const status = application.status ?? 'pending'
+  const decided = status !== 'pending'
+  return {
+    id: application.id,
+    timestamp: application.timestamp,
+    applicationType: getApplicationType(application).label,
+    status,
+    stage: getApplicationStage(application).label,
+    statusReason: decided ? application.statusReason : undefined,
+    decidedAt: decided ? application.stageHistory?.at(-1)?.at ?? application.updatedAt : undefined,
+    reapplyAfter: status === 'denied' && !application.permanentBan
+      ? application.reapplyAfter ??
+        getDenialRestriction(undefined, new Date(application.updatedAt ?? application.timestamp)).reapplyAfter
+      : undefined,
+    permanentBan: status === 'denied' ? application.permanentBan : undefined,
+    answers: getApplicationFields(application)
+      .map((field) => ({ name: field.name, label: field.label, value: formatAnswer(field, application[field.name]) }))
+      .filter((answer) => answer.value !== ''),
+  }
+}
@@ -0,0 +1,81 @@
+import { applicationConfig, getApplicationTypeConfig, type ApplicationTypeConfig, type FormFieldConfig, type StaffRole } from './config'
+import { getVisibleFields } from './form-conditions'
+import type { Application } from './storage/types'
+
+export const findApplicationType = (typeId: string) =>
+  applicationConfig.applicationTypes.find((type) => type.id === typeId)
+
+export const isDefaultApplicationType = (type: ApplicationTypeConfig) =>
+  type.id === applicationConfig.applicationTypes[0].id
+
+// Applications submitted before there were several types have no
+// `applicationType` and belong to the first type.
+export const getApplicationType = (application: Pick<Application, 'applicationType'>) =>
+  getApplicationTypeConfig(application.applicationType)
+
+export const getTypeFields = (type: ApplicationTypeConfig): FormFieldConfig[] =>
+  type.sections.flatMap((section) => section.fields)
+
+// The fields of the application's own type that were shown for its answers,
+// in form order.
+export const getApplicationFields = (application: Pick<Application, 'applicationType'> & Record<string, unknown>) =>
+  getVisibleFields(getApplicationType(application), application)
+
+// Every configured field, once per name, for checks that span all types.
+export const getAllFormFields = (): FormFieldConfig[] => {
+  const fields = new Map<string, FormFieldConfig>()
+  applicationConfig.applicationTypes.flatMap(getTypeFields).forEach((field) => {
+    if (!fields.has(field.name)) fields.set(field.name, field)
+  })
+  return Array.from(fields.values())
+}
+
+// An answer as text for staff and applicants, with choices shown by their
+// label and checkboxes as Yes or No.
+export const formatAnswer = (field: FormFieldConfig, value: unknown): string => {
+  if (value === undefined || value === null) return ''
+  const getLabel = (choice: unknown) =>
+    ('options' in field ? field.options.find((option) => option.value === choice)?.label : undefined) ?? String(choice)
+
+  switch (field.type) {
+    case 'checkbox':
+      return value ? 'Yes' : 'No'
+    case 'select':
+    case 'radio':
+      return value === '' ? '' : getLabel(value)
+    case 'multiselect':
+      return Array.isArray(value) ? value.map(getLabel).join(', ') : getLabel(value)
+    default:
+      return String(value)
+  }
+}
+
+export const canReviewType = (role: StaffRole | null | undefined, type: ApplicationTypeConfig) =>
+  !!role && (!type.reviewerRoles || type.reviewerRoles.includes(role))
+
+export const getReviewableTypes = (role: StaffRole | null | undefined) =>
+  applicationConfig.applicationTypes.filter((type) => canReviewType(role, type))
+
+export const canReviewApplication = (role: StaffRole | null | undefined, application: Pick<Application, 'applicationType'>) =>
+  canReviewType(role, getApplicationType(application))
+
+export const getApprovalRoles = (type: ApplicationTypeConfig) =>
+  type.approvalRoles ?? applicationConfig.discordBot.approvalRoles
+
+// Whether approving an application of this type adds or removes roles in
+// the configured guild.
+export const hasApprovalRoles = (type: ApplicationTypeConfig) => {
+  const { add, remove } = getApprovalRoles(type)
+  return !!applicationConfig.discordBot.guildId && (add.length > 0 || remove.length > 0)
+}
+
+// The applications a staff role may review, of the type `typeId` only when
+// it is set.
+export const filterReviewable = <T extends Pick<Application, 'applicationType'>>(
+  applications: T[],
+  role: StaffRole | null | undefined,
+  typeId?: string | null
+) =>
+  applications.filter(
+    (application) => canReviewApplication(role, application) && (!typeId || getApplicationType(application).id === typeId)
+  )
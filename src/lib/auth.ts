@@ -1,6 +1,100 @@
+import { AsyncLocalStorage } from "async_hooks"
 import { NextAuthOptions } from "next-auth"
+import type { JWT } from "next-auth/jwt"
 import DiscordProvider from "next-auth/providers/discord"
-import { isAdmin } from "./config"
+import { applicationConfig } from "./config"
+import { getStaffRole } from "./permissions"
+
+// Reads the user's role IDs in the configured guild with their OAuth token
+// (guilds.members.read scope). Users outside the guild, or whose token was
+// revoked, have no roles. Resolves to null when Discord could not be asked,
+// so the caller can keep the roles it already knows.
+async function fetchGuildRoleIds(accessToken: string): Promise<string[] | null> {
+  const { guildId } = applicationConfig.discordBot
+  if (!guildId) {
+    return []
+  }
+
+  try {
+    const response = await fetch(`https://discord.com/api/v10/users/@me/guilds/${guildId}/member`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    })
+    if ([401, 403, 404].includes(response.status)) {
+      return []
+    }
+    if (!response.ok) {
+      console.error(`Failed to fetch guild member roles: ${response.status} ${response.statusText}`)
+      return null
+    }
+    const member = await response.json()
+    return member.roles ?? []
+  } catch (error) {
+    console.error('Failed to fetch guild member roles:', error)
+    return null
+  }
+}
+
+async function refreshAccessToken(token: JWT): Promise<boolean> {
+  if (!token.discordRefreshToken) {
+    return false
+  }
+
+  try {
+    const response = await fetch('https://discord.com/api/v10/oauth2/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: process.env.DISCORD_CLIENT_ID!,
+        client_secret: process.env.DISCORD_CLIENT_SECRET!,
+        grant_type: 'refresh_token',
+        refresh_token: token.discordRefreshToken,
+      }),
+    })
+    if (!response.ok) {
+      console.error(`Failed to refresh Discord access token: ${response.status} ${response.statusText}`)
+      return false
+    }
+    const tokens = await response.json()
+    token.discordAccessToken = tokens.access_token
+    token.discordRefreshToken = tokens.refresh_token
+    token.discordTokenExpiresAt = Date.now() + tokens.expires_in * 1000
+    return true
+  } catch (error) {
+    console.error('Failed to refresh Discord access token:', error)
+    return false
+  }
+}
+
+// Set while the NextAuth route handler runs, which writes the token back to
+// the session cookie. getServerSession elsewhere cannot, so a token changed
+// there, such as a rotated refresh token, would be lost.
+const savedTokenContext = new AsyncLocalStorage<true>()
+
+export const withSavedToken = <T>(task: () => T) => savedTokenContext.run(true, task)
+
+// Re-reads the guild roles once every `staffRoleRefreshMinutes`, so staff
+// changes made in Discord apply without the user signing in again. Roles
+// are kept as they are when Discord cannot be asked.
+async function refreshGuildRoles(token: JWT) {
+  if (!savedTokenContext.getStore()) {
+    return
+  }
+  const refreshInterval = applicationConfig.staffRoleRefreshMinutes * 60 * 1000
+  if (Date.now() - (token.guildRolesCheckedAt ?? 0) < refreshInterval) {
+    return
+  }
+  token.guildRolesCheckedAt = Date.now()
+
+  const expired = !token.discordTokenExpiresAt || Date.now() >= token.discordTokenExpiresAt - 60 * 1000
+  if (!token.discordAccessToken || (expired && !(await refreshAccessToken(token)))) {
+    return
+  }
+
+  const roleIds = await fetchGuildRoleIds(token.discordAccessToken)
+  if (roleIds) {
+    token.guildRoleIds = roleIds
+  }
+}
 
 export const authOptions: NextAuthOptions = {
   providers: [
@@ -30,6 +124,14 @@ export const authOptions: NextAuthOptions = {
           email: discordProfile.email,
           createdAt: new Date(Number(BigInt(discordProfile.id) >> BigInt(22)) + 1420070400000).toISOString(),
         }
+        token.discordAccessToken = account.access_token
+        token.discordRefreshToken = account.refresh_token
+        token.discordTokenExpiresAt = account.expires_at ? account.expires_at * 1000 : undefined
+        token.guildRoleIds = []
+        token.guildRolesCheckedAt = 0
+      }
+      if (token.discord) {
+        await refreshGuildRoles(token)
       }
       return token
     },
@@ -45,10 +147,9 @@ export const authOptions: NextAuthOptions = {
         email: string;
         createdAt: string;
       }
+      session.staffRole = getStaffRole(token.discord?.id, token.guildRoleIds)
       return session
     }
   }
 }
 
-export { isAdmin }
-
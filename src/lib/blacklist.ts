@@ -0,0 +1,101 @@
+import * as z from 'zod'
+import { applicationConfig } from './config'
+import { normalizeIdentifier } from './duplicates'
+import type { Application, BlacklistEntry, BlacklistEntryType, BlacklistMatch, StaffMember } from './storage/types'
+
+export const blacklistEntryTypes: { type: BlacklistEntryType; label: string; placeholder: string }[] = [
+  { type: 'discordId', label: 'Discord ID', placeholder: '123456789012345678' },
+  { type: 'steamId', label: 'Steam ID', placeholder: '76561198...' },
+  { type: 'cfxUsername', label: 'CFX Username', placeholder: 'username or https://forum.cfx.re/u/username' },
+  { type: 'emailDomain', label: 'Email Domain', placeholder: 'example.com' },
+]
+
+export const getBlacklistTypeLabel = (type: BlacklistEntryType) =>
+  blacklistEntryTypes.find((entryType) => entryType.type === type)?.label ?? type
+
+// CFX accounts can be given as a profile URL or a bare username; email
+// domains with or without a leading @.
+export function normalizeBlacklistValue(type: BlacklistEntryType, value: string): string {
+  const trimmed = value.trim()
+  switch (type) {
+    case 'cfxUsername':
+      return normalizeIdentifier(applicationConfig.blacklist.cfxAccountField, trimmed)
+    case 'emailDomain':
+      return trimmed.toLowerCase().replace(/^@/, '')
+    default:
+      return trimmed
+  }
+}
+
+export const isBlacklistEntryActive = (entry: BlacklistEntry, now = new Date()) =>
+  !entry.expiresAt || Date.parse(entry.expiresAt) > now.getTime()
+
+const getEmailDomain = (email: string | undefined) => email?.trim().toLowerCase().split('@')[1] ?? ''
+
+function matchesEntry(application: Application, entry: BlacklistEntry): boolean {
+  const { steamIdField, cfxAccountField } = applicationConfig.blacklist
+  switch (entry.type) {
+    case 'discordId':
+      return application.discord.id === entry.value
+    case 'steamId':
+      return String(application[steamIdField] ?? '').trim() === entry.value
+    case 'cfxUsername':
+      return normalizeIdentifier(cfxAccountField, application[cfxAccountField]) === entry.value
+    case 'emailDomain': {
+      const domain = getEmailDomain(application.discord.email)
+      return domain === entry.value || domain.endsWith(`.${entry.value}`)
+    }
+  }
+}
+
+// The active entries a submission matches.
+export function findBlacklistEntries(application: Application, entries: BlacklistEntry[], now = new Date()) {
+  return entries.filter((entry) => isBlacklistEntryActive(entry, now) && matchesEntry(application, entry))
+}
+
+export const toBlacklistMatch = ({ id, type, value, reason }: BlacklistEntry): BlacklistMatch => ({
+  entryId: id,
+  type,
+  value,
+  reason,
+})
+
+// An entry as entered on the admin page or read from an import.
+export const blacklistEntryInputSchema = z.object({
+  type: z.enum(['discordId', 'steamId', 'cfxUsername', 'emailDomain']),
+  value: z.string().trim().min(1, 'Value is required').max(200),
+  reason: z.string().trim().min(1, 'Reason is required').max(500),
+  action: z.enum(['reject', 'flag']),
+  expiresAt: z.string().datetime({ message: 'Expiry must be an ISO date' }).optional(),
+})
+
+export type BlacklistEntryInput = z.infer<typeof blacklistEntryInputSchema>
+
+export function toBlacklistEntry(id: string, input: BlacklistEntryInput, addedBy: StaffMember): BlacklistEntry {
+  return {
+    id,
+    ...input,
+    value: normalizeBlacklistValue(input.type, input.value),
+    addedBy,
+    createdAt: new Date().toISOString(),
+  }
+}
+
+// The file format shared with partner servers. Authors and IDs are local to
+// each server and left out.
+export const blacklistExportSchema = z.object({
+  version: z.literal(1),
+  exportedAt: z.string().optional(),
+  entries: z.array(blacklistEntryInputSchema).max(10000),
+})
+
+export type BlacklistExport = z.infer<typeof blacklistExportSchema>
+
+export const toBlacklistExport = (entries: BlacklistEntry[]): BlacklistExport => ({
+  version: 1,
+  exportedAt: new Date().toISOString(),
+  entries: entries.map(({ type, value, reason, action, expiresAt }) => ({ type, value, reason, action, expiresAt })),
+})
+
+// Entries with the same key block the same applicants.
+export const getBlacklistKey = ({ type, value }: Pick<BlacklistEntry, 'type' | 'value'>) => `${type}:${value}`
@@ -0,0 +1,15 @@
+import { applicationConfig } from './config'
+import type { Application, ApplicationClaim } from './storage/types'
+
+export const getClaimExpiry = (from: Date) =>
+  new Date(from.getTime() + applicationConfig.claims.durationMinutes * 60 * 1000)
+
+// The application's claim, unless it has expired.
+export const getActiveClaim = (application: Pick<Application, 'claim'>, now = new Date()): ApplicationClaim | null =>
+  application.claim && new Date(application.claim.expiresAt) > now ? application.claim : null
+
+// True when someone other than `userId` holds an active claim.
+export const isClaimedByOther = (application: Pick<Application, 'claim'>, userId: string, now = new Date()) => {
+  const claim = getActiveClaim(application, now)
+  return !!claim && claim.by.id !== userId
+}
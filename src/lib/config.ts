@@ -1,33 +1,219 @@
-export interface FormFieldConfig {
+// Shows a field or section only while the answer to `field` is `equals`, or
+// one of them when it is a list; a multiselect matches when any of its
+// choices does. `field` should come earlier in the form. Hidden questions
+// are not required and their answers are not saved.
+export interface FormCondition {
+  field: string
+  equals: string | boolean | string[]
+}
+
+interface BaseFormFieldConfig {
   name: string
   label: string
   placeholder: string
   description: string
-  type: 'text' | 'number' | 'url' | 'textarea'
   required: boolean
+  validationMessage?: string
+  pii?: boolean
+  showIf?: FormCondition
+}
+
+// A choice of a select, multiselect or radio field. `value` is stored with
+// the application, `label` is shown to applicants and staff.
+export interface FormFieldOption {
+  value: string
+  label: string
+}
+
+export interface TextFormFieldConfig extends BaseFormFieldConfig {
+  type: 'text' | 'textarea'
   minLength?: number
   maxLength?: number
   pattern?: string
-  validationMessage?: string
 }
 
+// Number fields hold the applicant's age and must be at least the minimum
+// age of the application type.
+export interface NumberFormFieldConfig extends BaseFormFieldConfig {
+  type: 'number'
+}
+
+// `email` and `url` answers must be valid addresses; `discordUser` answers
+// are a Discord username or user ID.
+export interface FormattedFormFieldConfig extends BaseFormFieldConfig {
+  type: 'url' | 'email' | 'discordUser'
+}
+
+export interface ChoiceFormFieldConfig extends BaseFormFieldConfig {
+  type: 'select' | 'radio'
+  options: FormFieldOption[]
+}
+
+// Stored as the list of chosen values. A required multiselect needs at
+// least one choice.
+export interface MultiselectFormFieldConfig extends BaseFormFieldConfig {
+  type: 'multiselect'
+  options: FormFieldOption[]
+  minSelected?: number
+  maxSelected?: number
+}
+
+// A required checkbox must be ticked, e.g. to accept the server rules.
+export interface CheckboxFormFieldConfig extends BaseFormFieldConfig {
+  type: 'checkbox'
+}
+
+// Stored as YYYY-MM-DD; `min` and `max` use the same format.
+export interface DateFormFieldConfig extends BaseFormFieldConfig {
+  type: 'date'
+  min?: string
+  max?: string
+}
+
+export type FormFieldConfig =
+  | TextFormFieldConfig
+  | NumberFormFieldConfig
+  | FormattedFormFieldConfig
+  | ChoiceFormFieldConfig
+  | MultiselectFormFieldConfig
+  | CheckboxFormFieldConfig
+  | DateFormFieldConfig
+
 export interface FormSectionConfig {
   id: string
   title: string
   description: string
   icon: string 
   fields: FormFieldConfig[]
+  showIf?: FormCondition
 }
 
-export interface ApplicationConfig {
-  // Admin Configuration
-  adminDiscordIds: string[]
+export type StaffRole = 'viewer' | 'reviewer' | 'seniorReviewer' | 'owner'
 
-  // Age Requirements
-  minimumAge: number
+export type StaffPermission =
+  | 'viewApplications' // open the admin pages and read applications
+  | 'viewPii'          // see emails and fields marked as `pii`
+  | 'decide'           // approve or deny pending applications
+  | 'veto'             // deny alone when voting is enabled
+  | 'reassignClaims'   // take over or reassign applications claimed by others
+  | 'reopenArchived'   // move archived applications back to pending
+  | 'manageBlacklist'  // view and edit the blacklist of banned identifiers
+  | 'editConfig'       // manage templates, settings and the bot queue
+
+export interface StaffRoleConfig {
+  label: string
+  permissions: StaffPermission[]
+  discordUserIds: string[]
+  guildRoleIds: string[]
+}
+
+export type MessageTemplateType = 'approved' | 'denied' | 'banned' | 'interview' | 'waitlisted' | 'reconsidered'
+
+// A Discord embed sent to applicants. Any text may contain the placeholders
+// listed in src/lib/message-templates.ts, e.g. {username} or {reason}.
+// Fields whose value is empty after filling in placeholders are left out.
+export interface MessageTemplate {
+  title: string
+  description: string
+  color: string
+  fields: { name: string; value: string; inline?: boolean }[]
+  footer: string
+}
+
+// A step of the review pipeline. Applications move between stages only along
+// `transitions`; entering a stage with an `outcome` archives the application
+// as approved or denied. `messageTemplate` sends that DM on the transition.
+export interface ReviewStageConfig {
+  id: string
+  label: string
+  outcome?: 'approved' | 'denied'
+  transitions: { to: string; messageTemplate?: MessageTemplateType }[]
+}
 
-  // Form Configuration
+// A preset decision reason. Denial reasons can set how long the applicant
+// has to wait before applying again, or ban them from reapplying.
+export type CannedReason = {
+  label: string
+  text: string
+  cooldownDays?: number
+  permanentBan?: boolean
+}
+
+// A kind of application with its own form, such as whitelist, police or EMS
+// applications. Each type is applied for at /apply/<id>. Types without
+// `reviewerRoles` can be reviewed by every staff role; `approvalRoles` and
+// `messageTemplates` replace discordBot.approvalRoles and the shared
+// templates for applications of this type.
+export interface ApplicationTypeConfig {
+  id: string
+  label: string
+  description: string
+  minimumAge: number
   sections: FormSectionConfig[]
+  reviewerRoles?: StaffRole[]
+  approvalRoles?: { add: string[]; remove: string[] }
+  messageTemplates?: Partial<Record<MessageTemplateType, MessageTemplate>>
+}
+
+// When the form accepts applications. 'scheduled' only accepts them between
+// `opensAt` and `closesAt` (ISO dates, either may be unset); 'open' and
+// 'closed' ignore the schedule. A `maxPending` above 0 also closes intake
+// while that many applications are waiting for review.
+export interface IntakeSettings {
+  mode: 'open' | 'closed' | 'scheduled'
+  opensAt?: string
+  closesAt?: string
+  maxPending: number
+  closedMessage: string
+}
+
+export interface ApplicationConfig {
+  // Staff Roles
+  staffRoles: Record<StaffRole, StaffRoleConfig>
+  staffRoleRefreshMinutes: number
+
+  // Reapplication Rules
+  reapplyCooldownDays: number
+  onePendingApplication: boolean
+
+  // Application Intake (defaults, can be changed from the admin panel)
+  intake: IntakeSettings
+
+  // Review Pipeline (new applications start in the first stage)
+  reviewStages: ReviewStageConfig[]
+
+  // Seconds a decision can be undone before its DM is sent
+  decisionUndoSeconds: number
+
+  // Reviewer Voting
+  voting: {
+    enabled: boolean
+    quorum: number
+    threshold: number
+    seniorVeto: boolean
+  }
+
+  // Application Claims
+  claims: {
+    durationMinutes: number
+  }
+
+  // Duplicate Detection
+  duplicateDetection: {
+    identifierFields: string[]
+    textFields: string[]
+    textSimilarity: number
+  }
+
+  // Blacklist
+  blacklist: {
+    steamIdField: string
+    cfxAccountField: string
+    rejectionMessage: string
+  }
+
+  // Application Types (the first one is the default)
+  applicationTypes: ApplicationTypeConfig[]
 
   // Validation Messages
   messages: {
@@ -40,11 +226,27 @@ export interface ApplicationConfig {
 
   // Discord Bot Configuration
   discordBot: {
+    guildId: string;
+    reviewChannelId: string;
+    approvalRoles: {
+      add: string[];
+      remove: string[];
+    };
+    outbox: {
+      maxAttempts: number;
+      baseDelaySeconds: number;
+      maxDelayMinutes: number;
+    };
     serverName: string;
     serverIcon: string;
-    footerText: string;
   };
 
+  // Canned Decision Reasons
+  cannedReasons: Record<'approved' | 'denied', CannedReason[]>;
+
+  // Decision DM Templates (defaults, editable from the admin panel)
+  messageTemplates: Record<MessageTemplateType, MessageTemplate>;
+
   // UI Configuration
   ui: {
     formTitle: string;
@@ -59,97 +261,468 @@ export interface ApplicationConfig {
 }
 
 export const applicationConfig: ApplicationConfig = {
-  // Admin Discord IDs - Add your admin Discord user IDs here
-  adminDiscordIds: [
-    '770344107104010261', // Replace with actual admin IDs
-    '123456789012345678', // Example admin ID
-    '987654321098765432', // Example admin ID
+  // Staff roles - Add Discord user IDs, or role IDs from the guild set in
+  // discordBot.guildId, to each role. A user gets the highest role they match.
+  staffRoles: {
+    viewer: {
+      label: 'Viewer',
+      permissions: ['viewApplications'],
+      discordUserIds: [],
+      guildRoleIds: [],
+    },
+    reviewer: {
+      label: 'Reviewer',
+      permissions: ['viewApplications', 'viewPii', 'decide'],
+      discordUserIds: [],
+      guildRoleIds: [],
+    },
+    seniorReviewer: {
+      label: 'Senior Reviewer',
+      permissions: ['viewApplications', 'viewPii', 'decide', 'veto', 'reassignClaims', 'reopenArchived', 'manageBlacklist'],
+      discordUserIds: [],
+      guildRoleIds: [],
+    },
+    owner: {
+      label: 'Owner',
+      permissions: ['viewApplications', 'viewPii', 'decide', 'veto', 'reassignClaims', 'reopenArchived', 'manageBlacklist', 'editConfig'],
+      discordUserIds: [
+        '770344107104010261', // Replace with actual admin IDs
+        '123456789012345678', // Example admin ID
+        '987654321098765432', // Example admin ID
+      ],
+      guildRoleIds: [],
+    },
+  },
+
+  // How often a signed-in user's guild roles are re-read from Discord
+  staffRoleRefreshMinutes: 5,
+
+  // Days a denied applicant has to wait before applying again, unless the
+  // canned denial reason sets its own cooldownDays. Shown as {reapplyDate}.
+  reapplyCooldownDays: 14,
+
+  // Reject new applications while the applicant still has one pending
+  onePendingApplication: true,
+
+  // Application intake - Defaults for when the form is open. Staff with the
+  // editConfig permission can change these from /admin/intake.
+  intake: {
+    mode: 'open',
+    maxPending: 0,
+    closedMessage: 'Whitelist applications are currently closed. Keep an eye on our Discord for the next intake!',
+  },
+
+  // Review pipeline - Stages in display order, each listing the stages an
+  // application may move to next
+  reviewStages: [
+    {
+      id: 'submitted',
+      label: 'Submitted',
+      transitions: [
+        { to: 'underReview' },
+        { to: 'denied', messageTemplate: 'denied' },
+      ],
+    },
+    {
+      id: 'underReview',
+      label: 'Under Review',
+      transitions: [
+        { to: 'interview', messageTemplate: 'interview' },
+        { to: 'waitlisted', messageTemplate: 'waitlisted' },
+        { to: 'approved', messageTemplate: 'approved' },
+        { to: 'denied', messageTemplate: 'denied' },
+      ],
+    },
+    {
+      id: 'interview',
+      label: 'Interview',
+      transitions: [
+        { to: 'waitlisted', messageTemplate: 'waitlisted' },
+        { to: 'approved', messageTemplate: 'approved' },
+        { to: 'denied', messageTemplate: 'denied' },
+      ],
+    },
+    {
+      id: 'waitlisted',
+      label: 'Waitlisted',
+      transitions: [
+        { to: 'underReview' },
+        { to: 'approved', messageTemplate: 'approved' },
+        { to: 'denied', messageTemplate: 'denied' },
+      ],
+    },
+    { id: 'approved', label: 'Approved', outcome: 'approved', transitions: [] },
+    { id: 'denied', label: 'Denied', outcome: 'denied', transitions: [] },
   ],
 
-  // Minimum age requirement for applications
-  minimumAge: 18,
+  // Approval and denial DMs wait this long so a misclick can be undone from
+  // the admin panel. Set to 0 to send them right away.
+  decisionUndoSeconds: 10,
+
+  // Reviewer voting - When enabled, applications are approved or denied by
+  // votes instead of a single reviewer. Once `quorum` votes are in, the side
+  // with at least `threshold` of them wins. With `seniorVeto`, a deny vote
+  // from staff with the veto permission denies the application right away.
+  voting: {
+    enabled: false,
+    quorum: 3,
+    threshold: 2 / 3,
+    seniorVeto: true,
+  },
+
+  // How long a reviewer's claim on an application blocks others from moving
+  // or deciding it. Claiming again renews it.
+  claims: {
+    durationMinutes: 30,
+  },
+
+  // Blacklist - The form fields holding the Steam ID and CFX account that
+  // blacklist entries are checked against, and the error shown for
+  // submissions matching an entry with the 'reject' action.
+  blacklist: {
+    steamIdField: 'steamId',
+    cfxAccountField: 'cfxAccount',
+    rejectionMessage: 'Your application could not be accepted. Please contact staff if you think this is a mistake.',
+  },
 
-  // Form sections and fields configuration
-  sections: [
+  // Duplicate detection - New applications are compared with the pending and
+  // archived ones from other Discord accounts that share an identifier field
+  // or the Discord email. Their text fields also match when at least
+  // `textSimilarity` (0-1) of the wording is shared.
+  duplicateDetection: {
+    identifierFields: ['steamId', 'cfxAccount'],
+    textFields: ['character'],
+    textSimilarity: 0.8,
+  },
+
+  // Application types - Each has its own form, minimum age and reviewers.
+  // Answers are stored by field name, so reuse a name only for the same
+  // question across types.
+  applicationTypes: [
     {
-      id: 'personal',
-      title: 'Personal Information',
-      description: 'Basic information about yourself',
-      icon: 'M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z',
-      fields: [
+      id: 'whitelist',
+      label: 'Whitelist',
+      description: 'Apply to join our exclusive roleplay server.',
+      minimumAge: 18,
+      sections: [
         {
-          name: 'characterName',
-          label: 'In-Game Character Name',
-          placeholder: 'Enter your character name',
-          description: 'The character name you\'ll use in the server',
-          type: 'text',
-          required: true,
-          minLength: 6,
-          validationMessage: 'Character name must be at least 6 characters.',
+          id: 'personal',
+          title: 'Personal Information',
+          description: 'Basic information about yourself',
+          icon: 'M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z',
+          fields: [
+            {
+              name: 'characterName',
+              label: 'In-Game Character Name',
+              placeholder: 'Enter your character name',
+              description: 'The character name you\'ll use in the server',
+              type: 'text',
+              required: true,
+              minLength: 6,
+              validationMessage: 'Character name must be at least 6 characters.',
+            },
+            {
+              name: 'age',
+              label: 'Age',
+              placeholder: '18+',
+              description: 'Must be 18 or older to apply',
+              type: 'number',
+              required: true,
+              validationMessage: 'You must be at least 18 years old.',
+            },
+          ],
         },
         {
-          name: 'age',
-          label: 'Age',
-          placeholder: '18+',
-          description: 'Must be 18 or older to apply',
-          type: 'number',
-          required: true,
-          validationMessage: 'You must be at least 18 years old.',
+          id: 'auth',
+          title: 'Authentication Accounts',
+          description: 'Your platform accounts',
+          icon: 'M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z',
+          fields: [
+            {
+              name: 'steamId',
+              label: 'Steam ID (17 digits)',
+              placeholder: '76561198...',
+              description: 'Find this on your Steam profile page',
+              type: 'text',
+              required: true,
+              pattern: '^[0-9]{17}$',
+              validationMessage: 'Invalid Steam ID. It should be a 17-digit number.',
+              pii: true,
+            },
+            {
+              name: 'cfxAccount',
+              label: 'CFX Forum Account',
+              placeholder: 'https://forum.cfx.re/u/username',
+              description: 'Your CFX forum profile URL',
+              type: 'url',
+              required: true,
+              validationMessage: 'Please enter a valid CFX account URL.',
+              pii: true,
+            },
+          ],
+        },
+        {
+          id: 'roleplay',
+          title: 'Roleplay Background',
+          description: 'Your roleplay experience and character details',
+          icon: 'M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z',
+          fields: [
+            {
+              name: 'experience',
+              label: 'Previous Roleplay Experience',
+              placeholder: 'Describe your previous roleplay experience (minimum 50 characters)...',
+              description: 'Tell us about your RP background and experience',
+              type: 'textarea',
+              required: true,
+              minLength: 50,
+              validationMessage: 'Please provide at least 50 characters about your RP experience.',
+            },
+            {
+              name: 'character',
+              label: 'Character Backstory',
+              placeholder: 'Write your character\'s backstory (minimum 100 characters)...',
+              description: 'Provide a detailed backstory for your character',
+              type: 'textarea',
+              required: true,
+              minLength: 100,
+              validationMessage: 'Please provide at least 100 characters about your character backstory.',
+            },
+          ],
         },
       ],
     },
     {
-      id: 'auth',
-      title: 'Authentication Accounts',
-      description: 'Your platform accounts',
-      icon: 'M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z',
-      fields: [
+      id: 'police',
+      label: 'Police Department',
+      description: 'Apply to join the police department as a whitelisted officer.',
+      minimumAge: 18,
+      // Role IDs given to accepted officers; the whitelist roles are not changed
+      approvalRoles: {
+        add: [],
+        remove: [],
+      },
+      messageTemplates: {
+        approved: {
+          title: 'Police Department Application Response',
+          description: 'Hello {username},\n\nWe\'re happy to let you know that your police department application has been **ACCEPTED**! 🚓\n\n**Next Steps:**\n1. Check the department channels on our Discord for your onboarding\n2. Read the department handbook before your first shift',
+          color: '#00FF00',
+          fields: [
+            { name: 'Application Status', value: '✅ Accepted', inline: true },
+            { name: 'Decision Date', value: '{decisionDate}', inline: true },
+            { name: 'Staff Note', value: '{reason}' },
+          ],
+          footer: '© 2024 Aura Development - All rights reserved',
+        },
+      },
+      sections: [
         {
-          name: 'steamId',
-          label: 'Steam ID (17 digits)',
-          placeholder: '76561198...',
-          description: 'Find this on your Steam profile page',
-          type: 'text',
-          required: true,
-          pattern: '^[0-9]{17}$',
-          validationMessage: 'Invalid Steam ID. It should be a 17-digit number.',
+          id: 'personal',
+          title: 'Officer Information',
+          description: 'The character joining the department',
+          icon: 'M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z',
+          fields: [
+            {
+              name: 'characterName',
+              label: 'In-Game Character Name',
+              placeholder: 'Enter your character name',
+              description: 'The character who will serve as an officer',
+              type: 'text',
+              required: true,
+              minLength: 6,
+              validationMessage: 'Character name must be at least 6 characters.',
+            },
+            {
+              name: 'age',
+              label: 'Age',
+              placeholder: '18+',
+              description: 'Must be 18 or older to apply',
+              type: 'number',
+              required: true,
+              validationMessage: 'You must be at least 18 years old.',
+            },
+          ],
         },
         {
-          name: 'cfxAccount',
-          label: 'CFX Forum Account',
-          placeholder: 'https://forum.cfx.re/u/username',
-          description: 'Your CFX forum profile URL',
-          type: 'url',
-          required: true,
-          validationMessage: 'Please enter a valid CFX account URL.',
+          id: 'department',
+          title: 'Law Enforcement',
+          description: 'Your law enforcement roleplay experience',
+          icon: 'M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z',
+          fields: [
+            {
+              name: 'leoExperience',
+              label: 'Law Enforcement Roleplay Experience',
+              placeholder: 'Describe your experience as an officer on other servers (minimum 50 characters)...',
+              description: 'Departments, ranks and how long you served',
+              type: 'textarea',
+              required: true,
+              minLength: 50,
+              validationMessage: 'Please provide at least 50 characters about your law enforcement experience.',
+            },
+            {
+              name: 'leoScenario',
+              label: 'Scenario',
+              placeholder: 'A traffic stop turns hostile when the driver draws a weapon. Walk us through what you do (minimum 100 characters)...',
+              description: 'Show us how you would handle a tense situation',
+              type: 'textarea',
+              required: true,
+              minLength: 100,
+              validationMessage: 'Please provide at least 100 characters for the scenario.',
+            },
+          ],
         },
       ],
     },
     {
-      id: 'roleplay',
-      title: 'Roleplay Background',
-      description: 'Your roleplay experience and character details',
-      icon: 'M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z',
-      fields: [
+      id: 'ems',
+      label: 'EMS',
+      description: 'Apply to join emergency medical services.',
+      minimumAge: 18,
+      // Role IDs given to accepted medics; the whitelist roles are not changed
+      approvalRoles: {
+        add: [],
+        remove: [],
+      },
+      messageTemplates: {
+        approved: {
+          title: 'EMS Application Response',
+          description: 'Hello {username},\n\nWe\'re happy to let you know that your EMS application has been **ACCEPTED**! 🚑\n\n**Next Steps:**\n1. Check the EMS channels on our Discord for your onboarding\n2. Read the EMS protocols before your first shift',
+          color: '#00FF00',
+          fields: [
+            { name: 'Application Status', value: '✅ Accepted', inline: true },
+            { name: 'Decision Date', value: '{decisionDate}', inline: true },
+            { name: 'Staff Note', value: '{reason}' },
+          ],
+          footer: '© 2024 Aura Development - All rights reserved',
+        },
+      },
+      sections: [
+        {
+          id: 'personal',
+          title: 'Medic Information',
+          description: 'The character joining EMS',
+          icon: 'M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z',
+          fields: [
+            {
+              name: 'characterName',
+              label: 'In-Game Character Name',
+              placeholder: 'Enter your character name',
+              description: 'The character who will serve as a medic',
+              type: 'text',
+              required: true,
+              minLength: 6,
+              validationMessage: 'Character name must be at least 6 characters.',
+            },
+            {
+              name: 'age',
+              label: 'Age',
+              placeholder: '18+',
+              description: 'Must be 18 or older to apply',
+              type: 'number',
+              required: true,
+              validationMessage: 'You must be at least 18 years old.',
+            },
+          ],
+        },
+        {
+          id: 'medical',
+          title: 'Medical Roleplay',
+          description: 'Your experience with medical roleplay',
+          icon: 'M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z',
+          fields: [
+            {
+              name: 'emsExperience',
+              label: 'Medical Roleplay Experience',
+              placeholder: 'Describe your experience with EMS or medical roleplay (minimum 50 characters)...',
+              description: 'Servers, roles and the kind of scenes you have played',
+              type: 'textarea',
+              required: true,
+              minLength: 50,
+              validationMessage: 'Please provide at least 50 characters about your medical roleplay experience.',
+            },
+          ],
+        },
+      ],
+    },
+    {
+      id: 'staff',
+      label: 'Staff',
+      description: 'Apply to join the server staff team.',
+      minimumAge: 18,
+      // Only senior reviewers and owners see and decide staff applications
+      reviewerRoles: ['seniorReviewer', 'owner'],
+      // Role IDs given to new staff members; the whitelist roles are not changed
+      approvalRoles: {
+        add: [],
+        remove: [],
+      },
+      messageTemplates: {
+        approved: {
+          title: 'Staff Application Response',
+          description: 'Hello {username},\n\nWe\'re happy to let you know that your staff application has been **ACCEPTED**! 🎉\n\nA member of the management team will contact you on Discord to get you set up.',
+          color: '#00FF00',
+          fields: [
+            { name: 'Application Status', value: '✅ Accepted', inline: true },
+            { name: 'Decision Date', value: '{decisionDate}', inline: true },
+            { name: 'Staff Note', value: '{reason}' },
+          ],
+          footer: '© 2024 Aura Development - All rights reserved',
+        },
+      },
+      sections: [
         {
-          name: 'experience',
-          label: 'Previous Roleplay Experience',
-          placeholder: 'Describe your previous roleplay experience (minimum 50 characters)...',
-          description: 'Tell us about your RP background and experience',
-          type: 'textarea',
-          required: true,
-          minLength: 50,
-          validationMessage: 'Please provide at least 50 characters about your RP experience.',
+          id: 'personal',
+          title: 'About You',
+          description: 'Basic information about yourself',
+          icon: 'M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z',
+          fields: [
+            {
+              name: 'age',
+              label: 'Age',
+              placeholder: '18+',
+              description: 'Must be 18 or older to apply',
+              type: 'number',
+              required: true,
+              validationMessage: 'You must be at least 18 years old.',
+            },
+            {
+              name: 'timezone',
+              label: 'Timezone',
+              placeholder: 'e.g. CET or UTC-5',
+              description: 'So we know when you are usually around',
+              type: 'text',
+              required: true,
+              minLength: 2,
+              validationMessage: 'Please enter your timezone.',
+            },
+          ],
         },
         {
-          name: 'character',
-          label: 'Character Backstory',
-          placeholder: 'Write your character\'s backstory (minimum 100 characters)...',
-          description: 'Provide a detailed backstory for your character',
-          type: 'textarea',
-          required: true,
-          minLength: 100,
-          validationMessage: 'Please provide at least 100 characters about your character backstory.',
+          id: 'motivation',
+          title: 'Staff Experience',
+          description: 'Why you would make a good staff member',
+          icon: 'M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z',
+          fields: [
+            {
+              name: 'staffExperience',
+              label: 'Previous Staff Experience',
+              placeholder: 'Describe any moderation or staff experience (minimum 50 characters)...',
+              description: 'Communities you have helped run and what you did there',
+              type: 'textarea',
+              required: true,
+              minLength: 50,
+              validationMessage: 'Please provide at least 50 characters about your staff experience.',
+            },
+            {
+              name: 'staffMotivation',
+              label: 'Why Do You Want to Join the Staff Team?',
+              placeholder: 'Tell us what you would bring to the team (minimum 100 characters)...',
+              description: 'What motivates you to help the community',
+              type: 'textarea',
+              required: true,
+              minLength: 100,
+              validationMessage: 'Please provide at least 100 characters about your motivation.',
+            },
+          ],
         },
       ],
     },
@@ -165,19 +738,114 @@ export const applicationConfig: ApplicationConfig = {
 
   ui: {
     formTitle: 'Application Form',
-    formDescription: 'Fill out all required information to submit your whitelist application',
+    formDescription: 'Fill out all required information to submit your application',
     submitButtonText: 'Submit Application',
     submittingButtonText: 'Submitting Application...',
     successTitle: 'Application Submitted',
-    successDescription: 'Your whitelist application has been received. We will review it shortly.',
+    successDescription: 'Your application has been received. We will review it shortly.',
     errorTitle: 'Submission Error',
     errorDescription: 'There was an error submitting your application. Please try again later.',
   },
 
   discordBot: {
+    guildId: "", // Your Discord server ID, used to look up staff roles and assign roles
+    reviewChannelId: "", // Channel where new applications are posted with Approve / Deny buttons
+    // Role IDs given to (add) and taken from (remove) applicants on approval
+    approvalRoles: {
+      add: [],
+      remove: [],
+    },
+    // Failed DMs are retried with a doubling delay, then moved to dead letters
+    outbox: {
+      maxAttempts: 6,
+      baseDelaySeconds: 30,
+      maxDelayMinutes: 60,
+    },
     serverName: "Aura Development",
     serverIcon: "https://i.postimg.cc/X71XVpvP/LOGO-Aura-City-2000x2000-V2-by-Flight-Design.png",
-    footerText: "© 2024 Aura Development - All rights reserved",
+  },
+
+  // Reasons reviewers can pick from when approving or denying; they can add
+  // their own text below the chosen reason.
+  cannedReasons: {
+    approved: [
+      { label: 'Strong application', text: 'Your application showed a great understanding of roleplay. Welcome aboard!' },
+      { label: 'Passed interview', text: 'Thank you for taking the time to do the interview with us.' },
+    ],
+    denied: [
+      { label: 'Backstory too short', text: 'Your character backstory did not have enough detail. Please expand on it when you reapply.' },
+      { label: 'Low effort answers', text: 'Several answers were too short or did not answer the question.' },
+      { label: 'Rules not understood', text: 'Your answers showed that some of our server rules were misunderstood. Please read them again before reapplying.' },
+      { label: 'Invalid Steam ID or CFX account', text: 'The Steam ID or CFX account you provided could not be verified.', cooldownDays: 1 },
+      { label: 'Permanent ban', text: 'Your application was denied permanently after a serious rules violation.', permanentBan: true },
+    ],
+  },
+
+  messageTemplates: {
+    approved: {
+      title: '{applicationType} Application Response',
+      description: 'Hello {username},\n\nAfter reviewing your application, we\'re excited to let you know that your {applicationType} application has been **ACCEPTED**! 🎉\n\nYour responses demonstrated a strong understanding of roleplay and alignment with our community values. We believe you\'ll be a great addition to our server!\n\n**Next Steps:**\n1. Join our Discord server if you haven\'t already\n2. Read the rules and guidelines in #server-rules\n3. Connect to the server using your whitelisted Steam account',
+      color: '#00FF00',
+      fields: [
+        { name: 'Application Status', value: '✅ Accepted', inline: true },
+        { name: 'Decision Date', value: '{decisionDate}', inline: true },
+        { name: 'Staff Note', value: '{reason}' },
+        { name: 'Important Information', value: 'Please make sure to read our server rules and guidelines before connecting. If you have any questions, our staff team is here to help!' },
+      ],
+      footer: '© 2024 Aura Development - All rights reserved',
+    },
+    denied: {
+      title: '{applicationType} Application Response',
+      description: 'Hello {username},\n\nAfter careful consideration of your {applicationType} application, we regret to inform you that your application has been **DENIED** at this time.\n\nYou may reapply from {reapplyDate}, taking into account the feedback provided.',
+      color: '#FF0000',
+      fields: [
+        { name: 'Application Status', value: '❌ Denied', inline: true },
+        { name: 'Decision Date', value: '{decisionDate}', inline: true },
+        { name: 'Reason', value: '{reason}' },
+      ],
+      footer: '© 2024 Aura Development - All rights reserved',
+    },
+    banned: {
+      title: '{applicationType} Application Response',
+      description: 'Hello {username},\n\nAfter careful consideration of your {applicationType} application, we regret to inform you that your application has been **DENIED** and you will not be able to apply again.',
+      color: '#FF0000',
+      fields: [
+        { name: 'Application Status', value: '⛔ Permanently denied', inline: true },
+        { name: 'Decision Date', value: '{decisionDate}', inline: true },
+        { name: 'Reason', value: '{reason}' },
+      ],
+      footer: '© 2024 Aura Development - All rights reserved',
+    },
+    interview: {
+      title: '{applicationType} Application Update',
+      description: 'Hello {username},\n\nYour {applicationType} application has moved on to the **interview** stage. A member of our staff team will reach out to you on Discord to schedule it.',
+      color: '#5865F2',
+      fields: [
+        { name: 'Application Status', value: '🎙️ Interview', inline: true },
+        { name: 'Note', value: '{reason}' },
+      ],
+      footer: '© 2024 Aura Development - All rights reserved',
+    },
+    waitlisted: {
+      title: '{applicationType} Application Update',
+      description: 'Hello {username},\n\nYour {applicationType} application has been placed on the **waitlist**. We will get back to you as soon as a spot opens up.',
+      color: '#FFA500',
+      fields: [
+        { name: 'Application Status', value: '⏳ Waitlisted', inline: true },
+        { name: 'Note', value: '{reason}' },
+      ],
+      footer: '© 2024 Aura Development - All rights reserved',
+    },
+    reconsidered: {
+      title: '{applicationType} Application Update',
+      description: 'Hello {username},\n\nYour {applicationType} application is being **reconsidered** by our staff team. The earlier decision no longer applies, and we will let you know the outcome.',
+      color: '#5865F2',
+      fields: [
+        { name: 'Application Status', value: '🔄 Under Review', inline: true },
+        { name: 'Note', value: '{reason}' },
+      ],
+      footer: '© 2024 Aura Development - All rights reserved',
+    },
   },
 }
 
@@ -185,7 +853,7 @@ export const applicationConfig: ApplicationConfig = {
 EXAMPLES: How to add more questions and categories
 
 1. Adding questions to existing roleplay section:
-   Add these fields to the 'roleplay' section fields array:
+   Add these fields to the 'roleplay' section fields array of the whitelist type:
 
    {
      name: 'motivation',
@@ -253,17 +921,17 @@ EXAMPLES: How to add more questions and categories
        {
          name: 'reference1',
          label: 'Reference 1 Discord Username',
-         placeholder: '@username#1234',
+         placeholder: 'username',
          description: 'Someone who can vouch for your RP ability',
-         type: 'text',
+         type: 'discordUser',
          required: false,
        },
        {
          name: 'reference2',
          label: 'Reference 2 Discord Username',
-         placeholder: '@username#1234',
+         placeholder: 'username',
          description: 'Another person who knows your RP style',
-         type: 'text',
+         type: 'discordUser',
          required: false,
        }
      ],
@@ -281,24 +949,96 @@ EXAMPLES: How to add more questions and categories
          label: 'I have read and agree to follow all server rules',
          placeholder: '',
          description: 'You must accept the rules to apply',
-         type: 'text', // Note: This would need custom checkbox implementation
+         type: 'checkbox',
          required: true,
          validationMessage: 'You must accept the server rules to continue.',
        }
      ],
    }
 
-Remember to update the form schema generation in whitelist-form.tsx to handle new field types!
+5. Adding choice and date fields:
+   {
+     name: 'faction',
+     label: 'Preferred Faction',
+     placeholder: 'Choose a faction',
+     description: 'Where your character will spend most of their time',
+     type: 'select',
+     required: true,
+     options: [
+       { value: 'civilian', label: 'Civilian' },
+       { value: 'criminal', label: 'Criminal' },
+       { value: 'business', label: 'Business Owner' },
+     ],
+   },
+   {
+     name: 'playTimes',
+     label: 'When Do You Usually Play?',
+     placeholder: '',
+     description: 'Pick all that apply',
+     type: 'multiselect',
+     required: true,
+     options: [
+       { value: 'mornings', label: 'Mornings' },
+       { value: 'afternoons', label: 'Afternoons' },
+       { value: 'evenings', label: 'Evenings' },
+       { value: 'nights', label: 'Late nights' },
+     ],
+   },
+   {
+     name: 'characterBirthday',
+     label: 'Character Date of Birth',
+     placeholder: '',
+     description: 'Your character must be an adult',
+     type: 'date',
+     required: true,
+     max: '2006-12-31',
+     validationMessage: 'Please enter a date of birth before 2007.',
+   }
+
+6. Showing questions only when they apply:
+   Add `showIf` to a field or a section. Hidden questions are not required.
+
+   {
+     name: 'hasPreviousExperience',
+     label: 'Have you played on another roleplay server?',
+     placeholder: '',
+     description: '',
+     type: 'radio',
+     required: true,
+     options: [
+       { value: 'yes', label: 'Yes' },
+       { value: 'no', label: 'No' },
+     ],
+   },
+   {
+     name: 'previousServerName',
+     label: 'Previous Server',
+     placeholder: 'Server name',
+     description: 'The server you played on most',
+     type: 'text',
+     required: true,
+     showIf: { field: 'hasPreviousExperience', equals: 'yes' },
+   }
+
+   {
+     id: 'gang',
+     title: 'Gang Roleplay',
+     description: 'Only asked when the faction is criminal',
+     icon: 'M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z',
+     showIf: { field: 'faction', equals: 'criminal' },
+     fields: [ ... ],
+   }
+
+Every field type and its settings are listed in the Field Types section of
+the README.
 */
 
-export const getAdminDiscordIds = () => applicationConfig.adminDiscordIds
-export const getMinimumAge = () => applicationConfig.minimumAge
-export const getFormSections = () => applicationConfig.sections
-export const getFormField = (sectionId: string, fieldName: string) =>
-  applicationConfig.sections
+// The type with `typeId`, or the first (default) type when there is none.
+export const getApplicationTypeConfig = (typeId?: string) =>
+  applicationConfig.applicationTypes.find((type) => type.id === typeId) ?? applicationConfig.applicationTypes[0]
+export const getMinimumAge = (typeId?: string) => getApplicationTypeConfig(typeId).minimumAge
+export const getFormSections = (typeId?: string) => getApplicationTypeConfig(typeId).sections
+export const getFormField = (sectionId: string, fieldName: string, typeId?: string) =>
+  getFormSections(typeId)
     .find(section => section.id === sectionId)
     ?.fields.find(field => field.name === fieldName)
-
-export const isAdmin = (discordId: string | undefined): boolean => {
-  return !!discordId && applicationConfig.adminDiscordIds.includes(discordId)
-}
\ No newline at end of file
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, describe, it } from 'node:test'
+import { applicationConfig } from './config'
+import type { Application, StaffMember } from './storage'
+
+const reviewer: StaffMember = { id: '222222222222222222', username: 'reviewer' }
+
+const createApplication = (id: string): Application => ({
+  id,
+  timestamp: new Date().toISOString(),
+  discord: { id: '111111111111111111', username: 'applicant' },
+  status: 'pending',
+  stage: 'underReview',
+}) as Application
+
+describe('approving an application within the undo window', () => {
+  let workingDir: string
+  let dataDir: string
+
+  // The stores keep their files in ./data, so the modules are loaded from a
+  // temporary working directory.
+  const load = async () => ({
+    ...(await import('./decisions')),
+    store: await (await import('./storage')).getApplicationStore(),
+  })
+
+  before(async () => {
+    workingDir = process.cwd()
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'decisions-'))
+    process.chdir(dataDir)
+    delete process.env.DISCORD_BOT_TOKEN
+    applicationConfig.decisionUndoSeconds = 1
+    applicationConfig.voting.enabled = false
+    applicationConfig.discordBot.approvalRoles = { add: ['approved-role'], remove: [] }
+  })
+
+  after(async () => {
+    process.chdir(workingDir)
+    await fs.rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('leaves no role assignment pending when no guild is configured', async () => {
+    applicationConfig.discordBot.guildId = ''
+    const { moveApplication, isTransitionError, store } = await load()
+    await store.create(createApplication('no-guild'))
+
+    const result = await moveApplication('no-guild', 'approved', undefined, reviewer)
+
+    assert.ok(!isTransitionError(result))
+    assert.equal(result.roleAssignment, null)
+    assert.equal((await store.get('no-guild'))?.roleAssignment, undefined)
+  })
+
+  it('holds the approval roles back when they are configured', async () => {
+    applicationConfig.discordBot.guildId = '333333333333333333'
+    const { moveApplication, isTransitionError, store } = await load()
+    await store.create(createApplication('with-roles'))
+
+    const result = await moveApplication('with-roles', 'approved', undefined, reviewer)
+
+    assert.ok(!isTransitionError(result))
+    assert.equal(result.roleAssignment?.status, 'pending')
+    assert.equal((await store.get('with-roles'))?.roleAssignment?.status, 'pending')
+  })
+})
@@ -0,0 +1,526 @@
+import { assignApprovalRoles, cancelMessage, revokeApprovalRoles, sendDirectMessage } from './discord-bot'
+import { getApplicationType, hasApprovalRoles } from './application-types'
+import { getActiveClaim, getClaimExpiry, isClaimedByOther } from './claims'
+import { applicationConfig, type MessageTemplateType } from './config'
+import { updateReviewMessage } from './discord-review'
+import { withDuplicateStatus } from './duplicates'
+import { renderTemplate, type RenderedEmbed, type TemplateVariables } from './message-templates'
+import { getApplicationStage, getInitialStage, getOutcomeStage, getStage, getTransition } from './review-stages'
+import { getDenialRestriction } from './reapplication'
+import { getMessageTemplates } from './settings'
+import { getApplicationStore, type Application, type RoleAssignment, type StaffMember } from './storage'
+import { getVoteTally, isVotingEnabled, type VoteTally } from './voting'
+
+export type Decision = 'approved' | 'denied'
+
+export type DecisionResult = {
+  application: Application
+  // null when the transition has no DM
+  discordMessageSent: boolean | null
+  roleAssignment: RoleAssignment | null
+  // Set for decisions that can still be undone with undoDecision
+  undoUntil?: string
+}
+
+const toDiscordDate = (date: Date) => `<t:${Math.floor(date.getTime() / 1000)}:D>`
+
+// Placeholder values for the DMs sent about an application.
+export function getTemplateVariables(application: Application, reason: string | undefined, reviewer: StaffMember): TemplateVariables {
+  const reapplyAfter = application.reapplyAfter ?? getDenialRestriction(undefined).reapplyAfter
+  return {
+    username: application.discord.username,
+    characterName: typeof application.characterName === 'string' ? application.characterName : '',
+    reason: reason ?? '',
+    reviewer: reviewer.username,
+    reapplyDate: application.permanentBan ? 'never' : toDiscordDate(new Date(reapplyAfter ?? Date.now())),
+    decisionDate: `<t:${Math.floor(Date.now() / 1000)}:F>`,
+    applicationType: getApplicationType(application).label,
+  }
+}
+
+export const isDecision = (value: unknown): value is Decision =>
+  value === 'approved' || value === 'denied'
+
+export type TransitionError = {
+  error: 'notFound' | 'notAllowed' | 'claimed'
+  message: string
+}
+
+export const isTransitionError = <T extends object>(result: T | TransitionError): result is TransitionError =>
+  'error' in result
+
+// Thrown from a store updater to abort the update when the application
+// changed after it was read, e.g. it was moved or claimed by someone else.
+class ConflictError extends Error {
+  constructor(readonly result: TransitionError) {
+    super(result.message)
+  }
+}
+
+const notFound: TransitionError = { error: 'notFound', message: 'Application not found' }
+const alreadyDecided: TransitionError = { error: 'notAllowed', message: 'This application has already been decided' }
+
+const claimedError = (application: Application): TransitionError => {
+  const claim = getActiveClaim(application)
+  return {
+    error: 'claimed',
+    message: `This application is claimed by ${claim?.by.username ?? 'another reviewer'} until ${
+      claim ? new Date(claim.expiresAt).toLocaleTimeString() : 'the claim expires'
+    }`,
+  }
+}
+
+// Permanently banned applicants get the 'banned' DM instead of 'denied'.
+const getMessageTemplate = (application: Application, template: MessageTemplateType): MessageTemplateType =>
+  template === 'denied' && application.permanentBan ? 'banned' : template
+
+export type MoveOptions = {
+  byVote?: boolean
+  override?: boolean
+  // Label of the canned reason the decision was made with
+  cannedReason?: string
+}
+
+// Moves a pending application to another review stage along one of the
+// edges in applicationConfig.reviewStages and records who moved it. Entering
+// a stage with an outcome archives the application and assigns roles. Sends
+// the transition's DM, if any, and updates the staff review message. Shared
+// by the admin API and the Discord review buttons. An application claimed by
+// someone else can only be moved with `override`, or by a vote. Denials
+// record when the applicant may reapply, based on `cannedReason`.
+export async function moveApplication(
+  id: string,
+  to: string,
+  reason: string | undefined,
+  movedBy: StaffMember,
+  { byVote = false, override = false, cannedReason }: MoveOptions = {}
+): Promise<DecisionResult | TransitionError> {
+  const store = await getApplicationStore()
+  const current = await store.get(id)
+  if (!current) {
+    return notFound
+  }
+  if (current.status && current.status !== 'pending') {
+    return alreadyDecided
+  }
+
+  const from = getApplicationStage(current)
+  const target = getStage(to)
+  const transition = getTransition(from, to)
+  if (!target || !transition) {
+    return { error: 'notAllowed', message: `Applications in ${from.label} cannot be moved to ${target?.label ?? to}` }
+  }
+  if (target.outcome && isVotingEnabled() && !byVote) {
+    return { error: 'notAllowed', message: 'Applications are approved or denied by reviewer votes' }
+  }
+  const checkClaim = !byVote && !override
+  if (checkClaim && isClaimedByOther(current, movedBy.id)) {
+    return claimedError(current)
+  }
+
+  const now = new Date().toISOString()
+  const update = (pending: Application): Application => {
+    if (getApplicationStage(pending).id !== from.id) {
+      throw new ConflictError({ error: 'notAllowed', message: 'The application was moved to another stage in the meantime' })
+    }
+    if (checkClaim && isClaimedByOther(pending, movedBy.id)) {
+      throw new ConflictError(claimedError(pending))
+    }
+    return {
+      ...pending,
+      ...(target.outcome ? { status: target.outcome, statusReason: reason, decidedBy: movedBy, claim: undefined } : {}),
+      ...(target.outcome === 'denied' ? getDenialRestriction(cannedReason, new Date(now)) : {}),
+      stage: target.id,
+      stageHistory: [...(pending.stageHistory ?? []), { from: from.id, to: target.id, by: movedBy, at: now, reason }],
+      updatedAt: now,
+    }
+  }
+
+  let application: Application | null
+  try {
+    application = target.outcome ? await store.archive(id, update) : await store.updatePending(id, update)
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return error.result
+    }
+    throw error
+  }
+  if (!application) {
+    return notFound
+  }
+
+  if (target.outcome) {
+    await updateDuplicateLinks(application)
+  }
+
+  // Decisions wait out the undo window before roles and the DM go out.
+  const undoSeconds = target.outcome ? applicationConfig.decisionUndoSeconds : 0
+
+  let roleAssignment: RoleAssignment | null = null
+  if (target.outcome === 'approved' && undoSeconds > 0 && hasApprovalRoles(getApplicationType(application))) {
+    roleAssignment = { status: 'pending', updatedAt: now, error: 'Waiting for the undo window to pass' }
+    setTimeout(() => assignRolesIfStillApproved(id), undoSeconds * 1000)
+  } else if (target.outcome === 'approved') {
+    roleAssignment = await assignApprovalRoles(application.discord.id, application.applicationType)
+  }
+  if (roleAssignment) {
+    await store.updateArchived(id, (archived) => ({ ...archived, roleAssignment }))
+  }
+
+  let discordMessageSent: boolean | null = null
+  if (transition.messageTemplate) {
+    discordMessageSent = false
+    try {
+      console.log(`Attempting to send Discord DM to user ${application.discord.id} for application moved to ${target.id}`)
+      discordMessageSent = await sendDirectMessage(
+        application.discord.id,
+        getMessageTemplate(application, transition.messageTemplate),
+        getTemplateVariables(application, reason, movedBy),
+        id,
+        { delaySeconds: undoSeconds, applicationType: application.applicationType }
+      )
+    } catch (error) {
+      console.error(`Failed to queue Discord message to user ${application.discord.id}:`, error)
+    }
+  }
+
+  await updateReviewMessage(application)
+
+  return {
+    application,
+    discordMessageSent,
+    roleAssignment,
+    undoUntil: undoSeconds > 0 ? new Date(Date.parse(now) + undoSeconds * 1000).toISOString() : undefined,
+  }
+}
+
+// Shows the new status of `application` on the applications linked to it as
+// possible duplicates. Each may be pending or archived by now.
+async function updateDuplicateLinks(application: Application) {
+  const store = await getApplicationStore()
+  const update = (linked: Application) => withDuplicateStatus(linked, application)
+  for (const match of application.duplicates ?? []) {
+    try {
+      if (!(await store.updatePending(match.applicationId, update))) {
+        await store.updateArchived(match.applicationId, update)
+      }
+    } catch (error) {
+      console.error(`Failed to update the duplicate link on application ${match.applicationId}:`, error)
+    }
+  }
+}
+
+// Assigns the approval roles held back during the undo window, unless the
+// decision was undone in the meantime.
+async function assignRolesIfStillApproved(id: string) {
+  try {
+    const store = await getApplicationStore()
+    const application = await store.get(id)
+    if (application?.status !== 'approved' || application.roleAssignment?.status !== 'pending') return
+
+    // Null when the roles have been removed from the config since.
+    const roleAssignment = await assignApprovalRoles(application.discord.id, application.applicationType)
+    await store.updateArchived(id, (archived) => ({ ...archived, roleAssignment: roleAssignment ?? undefined }))
+  } catch (error) {
+    console.error(`Failed to assign approval roles for application ${id}:`, error)
+  }
+}
+
+// Moves a decided application back to pending, in the stage it was decided
+// from, keeping the decision in `decisionHistory`. Votes start over. With
+// `notify`, the applicant gets the 'reconsidered' DM. A decision DM that is
+// still queued or waiting for a retry is withdrawn and approval roles are
+// taken back.
+export async function reopenApplication(
+  id: string,
+  reason: string,
+  reopenedBy: StaffMember,
+  { notify = false } = {}
+): Promise<DecisionResult | TransitionError> {
+  const store = await getApplicationStore()
+  const now = new Date().toISOString()
+  let revokeRoles = false
+  let queuedMessageId: string | undefined
+  const application = await store.unarchive(id, (archived) => {
+    revokeRoles = archived.roleAssignment?.status === 'assigned'
+    queuedMessageId = archived.notification?.state === 'pending' || archived.notification?.state === 'failed'
+      ? archived.notification.messageId
+      : undefined
+    const decision = archived.stageHistory?.at(-1)
+    const stage = getStage(decision?.from ?? '') ?? getInitialStage()
+    return {
+      ...archived,
+      status: 'pending',
+      statusReason: undefined,
+      decidedBy: undefined,
+      votes: undefined,
+      roleAssignment: undefined,
+      reapplyAfter: undefined,
+      permanentBan: undefined,
+      stage: stage.id,
+      stageHistory: [
+        ...(archived.stageHistory ?? []),
+        { from: getApplicationStage(archived).id, to: stage.id, by: reopenedBy, at: now, reason },
+      ],
+      decisionHistory: [
+        ...(archived.decisionHistory ?? []),
+        {
+          status: archived.status ?? 'pending',
+          statusReason: archived.statusReason,
+          decidedBy: archived.decidedBy,
+          decidedAt: decision?.at ?? archived.updatedAt,
+          votes: archived.votes,
+          reopenedBy,
+          reopenedAt: now,
+          reopenReason: reason,
+        },
+      ],
+      updatedAt: now,
+    }
+  })
+  if (!application) {
+    return (await store.get(id)) ? { error: 'notAllowed', message: 'Only decided applications can be reopened' } : notFound
+  }
+
+  await updateDuplicateLinks(application)
+
+  // The DM about the reverted decision must not go out anymore.
+  if (queuedMessageId) {
+    await cancelMessage(queuedMessageId)
+  }
+  if (revokeRoles) {
+    await revokeApprovalRoles(application.discord.id, application.applicationType)
+  }
+
+  let discordMessageSent: boolean | null = null
+  if (notify) {
+    discordMessageSent = false
+    try {
+      discordMessageSent = await sendDirectMessage(
+        application.discord.id,
+        'reconsidered',
+        getTemplateVariables(application, reason, reopenedBy),
+        id,
+        { applicationType: application.applicationType }
+      )
+    } catch (error) {
+      console.error(`Failed to queue Discord message to user ${application.discord.id}:`, error)
+    }
+  }
+
+  await updateReviewMessage(application)
+
+  return { application, discordMessageSent, roleAssignment: null }
+}
+
+// Reverts a decision within applicationConfig.decisionUndoSeconds, before its
+// DM has gone out. Only the reviewer who made the decision can undo it.
+export async function undoDecision(id: string, undoneBy: StaffMember): Promise<DecisionResult | TransitionError> {
+  const store = await getApplicationStore()
+  const application = await store.get(id)
+  if (!application) {
+    return notFound
+  }
+
+  const decision = application.stageHistory?.at(-1)
+  if (!application.status || application.status === 'pending' || !decision) {
+    return { error: 'notAllowed', message: 'This application has not been decided' }
+  }
+  if (application.decidedBy?.id !== undoneBy.id) {
+    return { error: 'notAllowed', message: 'Only the reviewer who made the decision can undo it' }
+  }
+  if (Date.now() > Date.parse(decision.at) + applicationConfig.decisionUndoSeconds * 1000) {
+    return { error: 'notAllowed', message: 'The decision can no longer be undone' }
+  }
+
+  const from = getStage(decision.from)
+  const sendsMessage = from && getTransition(from, decision.to)?.messageTemplate
+  if (sendsMessage && application.notification && !(await cancelMessage(application.notification.messageId))) {
+    return { error: 'notAllowed', message: 'The applicant has already been notified' }
+  }
+
+  return reopenApplication(id, 'Decision undone', undoneBy)
+}
+
+// Approves or denies a pending application by moving it to the stage with
+// that outcome that its current stage leads to.
+export async function decideApplication(
+  id: string,
+  status: Decision,
+  reason: string | undefined,
+  decidedBy: StaffMember,
+  options: MoveOptions = {}
+): Promise<DecisionResult | TransitionError> {
+  const store = await getApplicationStore()
+  const application = await store.get(id)
+  if (!application) {
+    return notFound
+  }
+  if (application.status && application.status !== 'pending') {
+    return alreadyDecided
+  }
+
+  const from = getApplicationStage(application)
+  const target = getOutcomeStage(from, status)
+  if (!target) {
+    return { error: 'notAllowed', message: `Applications in ${from.label} cannot be ${status} yet` }
+  }
+  return moveApplication(id, target.id, reason, decidedBy, options)
+}
+
+export type MessagePreview = {
+  template: MessageTemplateType | null
+  // null when the transition sends no DM
+  embed: RenderedEmbed | null
+}
+
+// Renders the DM the applicant would receive if `previewedBy` moved the
+// application to `to` with `reason`, without changing anything.
+export async function previewTransitionMessage(
+  id: string,
+  to: string,
+  reason: string | undefined,
+  previewedBy: StaffMember,
+  { cannedReason }: Pick<MoveOptions, 'cannedReason'> = {}
+): Promise<MessagePreview | TransitionError> {
+  const store = await getApplicationStore()
+  const application = await store.get(id)
+  if (!application) {
+    return notFound
+  }
+  if (application.status && application.status !== 'pending') {
+    return alreadyDecided
+  }
+
+  const from = getApplicationStage(application)
+  const transition = getTransition(from, to)
+  if (!transition) {
+    return { error: 'notAllowed', message: `Applications in ${from.label} cannot be moved to ${getStage(to)?.label ?? to}` }
+  }
+  if (!transition.messageTemplate) {
+    return { template: null, embed: null }
+  }
+
+  const decided = getStage(to)?.outcome === 'denied' ? { ...application, ...getDenialRestriction(cannedReason) } : application
+  const template = getMessageTemplate(decided, transition.messageTemplate)
+  const templates = await getMessageTemplates(application.applicationType)
+  return {
+    template,
+    embed: renderTemplate(templates[template], {
+      serverName: applicationConfig.discordBot.serverName,
+      ...getTemplateVariables(decided, reason, previewedBy),
+    }),
+  }
+}
+
+export type VoteResult = {
+  application: Application
+  tally: VoteTally
+  // Set when this vote completed the decision
+  decision: DecisionResult | TransitionError | null
+}
+
+// Records a reviewer's vote on a pending application, replacing their earlier
+// vote, and decides the application once the tally reaches an outcome. Pass
+// `veto` for staff with the veto permission; their deny vote then decides
+// right away when applicationConfig.voting.seniorVeto is set.
+export async function castVote(
+  id: string,
+  decision: Decision,
+  comment: string | undefined,
+  reviewer: StaffMember,
+  { veto = false } = {}
+): Promise<VoteResult | TransitionError> {
+  if (!isVotingEnabled()) {
+    return { error: 'notAllowed', message: 'Voting is not enabled' }
+  }
+
+  const store = await getApplicationStore()
+  const application = await store.updatePending(id, (pending) => ({
+    ...pending,
+    votes: [
+      ...(pending.votes ?? []).filter((vote) => vote.reviewer.id !== reviewer.id),
+      { reviewer, decision, comment, at: new Date().toISOString(), veto: veto && decision === 'denied' ? true : undefined },
+    ],
+  }))
+  if (!application) {
+    const existing = await store.get(id)
+    return existing ? alreadyDecided : notFound
+  }
+
+  const tally = getVoteTally(application.votes)
+  if (!tally.outcome) {
+    await updateReviewMessage(application)
+    return { application, tally, decision: null }
+  }
+
+  const result = await decideApplication(id, tally.outcome, undefined, reviewer, { byVote: true })
+  if (isTransitionError(result)) {
+    await updateReviewMessage(application)
+  }
+  return { application: isTransitionError(result) ? application : result.application, tally, decision: result }
+}
+
+// Claims a pending application for `claimant`, or renews their claim. With
+// `reassign`, an active claim held by someone else is replaced.
+export async function claimApplication(
+  id: string,
+  claimant: StaffMember,
+  { avatar, reassign = false }: { avatar?: string; reassign?: boolean } = {}
+): Promise<Application | TransitionError> {
+  const store = await getApplicationStore()
+  const now = new Date()
+  let application: Application | null
+  try {
+    application = await store.updatePending(id, (pending) => {
+      if (!reassign && isClaimedByOther(pending, claimant.id, now)) {
+        throw new ConflictError(claimedError(pending))
+      }
+      return {
+        ...pending,
+        claim: { by: claimant, avatar, claimedAt: now.toISOString(), expiresAt: getClaimExpiry(now).toISOString() },
+      }
+    })
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return error.result
+    }
+    throw error
+  }
+  if (!application) {
+    return (await store.get(id)) ? alreadyDecided : notFound
+  }
+
+  await updateReviewMessage(application)
+  return application
+}
+
+// Removes the claim on a pending application. Only the claimer can release
+// an active claim unless `force` is set.
+export async function releaseClaim(
+  id: string,
+  releasedBy: StaffMember,
+  { force = false } = {}
+): Promise<Application | TransitionError> {
+  const store = await getApplicationStore()
+  let application: Application | null
+  try {
+    application = await store.updatePending(id, (pending) => {
+      if (!force && isClaimedByOther(pending, releasedBy.id)) {
+        throw new ConflictError(claimedError(pending))
+      }
+      return { ...pending, claim: undefined }
+    })
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return error.result
+    }
+    throw error
+  }
+  if (!application) {
+    return (await store.get(id)) ? alreadyDecided : notFound
+  }
+
+  await updateReviewMessage(application)
+  return application
+}
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import type { Application, OutboxMessage } from './storage';
+
+const createMessage = (id: string, createdAt: string, fields: Partial<OutboxMessage> = {}): OutboxMessage => ({
+  id,
+  applicationId: 'app-1',
+  userId: '111111111111111111',
+  payload: { status: 'denied' },
+  state: 'pending',
+  attempts: 0,
+  nextAttemptAt: createdAt,
+  createdAt,
+  updatedAt: createdAt,
+  ...fields,
+});
+
+describe('resending a decision message', () => {
+  let workingDir: string;
+  let dataDir: string;
+
+  // The stores keep their files in ./data, so the modules are loaded from a
+  // temporary working directory.
+  const load = async () => {
+    const storage = await import('./storage');
+    return {
+      ...(await import('./discord-bot')),
+      store: await storage.getApplicationStore(),
+      outbox: await storage.getOutboxStore(),
+    };
+  };
+
+  before(async () => {
+    workingDir = process.cwd();
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'discord-bot-'));
+    process.chdir(dataDir);
+  });
+
+  after(async () => {
+    process.chdir(workingDir);
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('keeps the delivery state of a newer message when an older one is resent', async () => {
+    const { resendMessage, store, outbox } = await load();
+    const older = createMessage('older', '2026-01-01T12:00:00.000Z', { state: 'dead', attempts: 5 });
+    const newer = createMessage('newer', '2026-01-02T12:00:00.000Z', { state: 'sent', attempts: 1 });
+    await outbox.enqueue(older);
+    await outbox.enqueue(newer);
+    await store.create({
+      id: 'app-1',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      discord: { id: newer.userId, username: 'applicant' },
+      status: 'denied',
+      notification: { messageId: newer.id, state: 'sent', attempts: 1, updatedAt: newer.updatedAt, createdAt: newer.createdAt },
+    } as Application);
+
+    await resendMessage(older.id);
+
+    const notification = (await store.get('app-1'))?.notification;
+    assert.equal(notification?.messageId, newer.id);
+    assert.equal(notification?.state, 'sent');
+  });
+
+  it('records the delivery state of the newest message when it is resent', async () => {
+    const { resendMessage, store, outbox } = await load();
+    await outbox.update('newer', (message) => ({ ...message, state: 'dead' }));
+
+    await resendMessage('newer');
+
+    const notification = (await store.get('app-1'))?.notification;
+    assert.equal(notification?.messageId, 'newer');
+    assert.equal(notification?.state, 'pending');
+    assert.equal(notification?.attempts, 0);
+  });
+});
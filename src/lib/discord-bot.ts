@@ -1,9 +1,23 @@
-import { Client, GatewayIntentBits, EmbedBuilder } from 'discord.js';
-import { applicationConfig } from './config';
+import { randomUUID } from 'crypto';
+import { Client, GatewayIntentBits, EmbedBuilder, DiscordAPIError, RESTJSONErrorCodes } from 'discord.js';
+import { getApprovalRoles, hasApprovalRoles } from './application-types';
+import { applicationConfig, getApplicationTypeConfig, type MessageTemplateType } from './config';
+import { handleCommandInteraction, registerSlashCommands } from './discord-commands';
+import { handleReviewInteraction } from './discord-review';
+import { renderTemplate, type TemplateVariables } from './message-templates';
+import { getMessageTemplates } from './settings';
+import {
+  getApplicationStore,
+  getOutboxStore,
+  type Application,
+  type NotificationDelivery,
+  type OutboxMessage,
+  type RoleAssignment,
+} from './storage';
 
 let client: Client | null = null;
 let isReady = false;
-const messageQueue: Array<{ userId: string; status: 'approved' | 'denied'; reason?: string; retries: number }> = [];
+let outboxLock: Promise<unknown> = Promise.resolve();
 
 export function initializeDiscordBot() {
   if (!process.env.DISCORD_BOT_TOKEN) {
@@ -17,22 +31,37 @@ export function initializeDiscordBot() {
   }
 
   client = new Client({
-    intents: [GatewayIntentBits.Guilds, GatewayIntentBits.DirectMessages],
+    intents: [GatewayIntentBits.Guilds, GatewayIntentBits.GuildMembers, GatewayIntentBits.DirectMessages],
   });
 
   try {
-    client.on('ready', () => {
+    client.on('ready', (readyClient) => {
       console.log(`Discord bot logged in as ${client!.user?.tag || 'Unknown'}!`);
       isReady = true;
-      processMessageQueue();
+      processOutbox();
+      retryPendingRoleAssignments();
+      registerSlashCommands(readyClient);
       setInterval(() => {
-        if (isReady && messageQueue.length > 0) {
-          console.log(`Processing ${messageQueue.length} queued messages...`);
-          processMessageQueue();
+        if (isReady) {
+          processOutbox();
         }
       }, 30000);
     });
 
+    client.on('guildMemberAdd', (member) => {
+      if (member.guild.id === applicationConfig.discordBot.guildId) {
+        retryPendingRoleAssignments(member.id);
+      }
+    });
+
+    client.on('interactionCreate', (interaction) => {
+      if (interaction.isChatInputCommand()) {
+        handleCommandInteraction(interaction);
+      } else {
+        handleReviewInteraction(interaction);
+      }
+    });
+
     client.on('error', (error) => {
       console.error('Discord client error:', error);
       isReady = false;
@@ -49,82 +78,160 @@ export function initializeDiscordBot() {
   }
 }
 
-async function processMessageQueue() {
-  if (!isReady || messageQueue.length === 0) return;
+// Deliveries run one at a time, so a message picked up by the outbox worker
+// is never sent a second time by an immediate send, and vice versa.
+function withOutboxLock<T>(task: () => Promise<T>): Promise<T> {
+  const result = outboxLock.then(task);
+  outboxLock = result.catch(() => undefined);
+  return result;
+}
+
+// baseDelaySeconds, doubled after every failed attempt, up to maxDelayMinutes.
+function getRetryDelay(attempts: number) {
+  const { baseDelaySeconds, maxDelayMinutes } = applicationConfig.discordBot.outbox;
+  return Math.min(baseDelaySeconds * 1000 * 2 ** (attempts - 1), maxDelayMinutes * 60 * 1000);
+}
 
-  console.log(`Processing ${messageQueue.length} queued Discord messages...`);
+// Copies the delivery state onto the application the message belongs to.
+async function recordDelivery(message: OutboxMessage) {
+  if (!message.applicationId) return;
 
-  const message = messageQueue.shift();
-  if (!message) return;
+  const notification: NotificationDelivery = {
+    messageId: message.id,
+    state: message.state,
+    attempts: message.attempts,
+    updatedAt: message.updatedAt,
+    error: message.lastError,
+    createdAt: message.createdAt,
+  };
+
+  // A retry or resend of an older DM must not replace the state of a newer
+  // one. Deliveries recorded before createdAt was kept count as older.
+  const update = (application: Application) =>
+    application.notification &&
+    application.notification.messageId !== message.id &&
+    (application.notification.createdAt ?? '') > message.createdAt
+      ? application
+      : { ...application, notification };
 
   try {
-    await sendDirectMessageInternal(message.userId, message.status, message.reason);
-    console.log(`Queued message sent to user ${message.userId}`);
+    const store = await getApplicationStore();
+    const pending = await store.updatePending(message.applicationId, update);
+    if (!pending) {
+      await store.updateArchived(message.applicationId, update);
+    }
   } catch (error) {
-    console.error(`Failed to send queued message to user ${message.userId}:`, error);
-    if (message.retries < 3) {
-      message.retries++;
-      messageQueue.unshift(message);
-      console.log(`Retrying message to user ${message.userId} (attempt ${message.retries}/3) in ${5000 * message.retries}ms`);
-      setTimeout(() => processMessageQueue(), 5000 * message.retries);
-    } else {
-      console.error(`Failed to send message to user ${message.userId} after 3 retries - giving up`);
+    console.error(`Failed to record delivery state for application ${message.applicationId}:`, error);
+  }
+}
+
+// Attempts one delivery of a pending or failed message. Must run inside
+// withOutboxLock.
+async function deliverMessage(id: string): Promise<OutboxMessage | null> {
+  const outbox = await getOutboxStore();
+  const message = await outbox.get(id);
+  if (!message || (message.state !== 'pending' && message.state !== 'failed')) {
+    return message;
+  }
+
+  let delivered: OutboxMessage | null;
+  try {
+    await sendDirectMessageInternal(
+      message.userId,
+      message.payload.status,
+      message.payload.variables ?? { reason: message.payload.reason },
+      message.payload.applicationType
+    );
+    const now = new Date().toISOString();
+    delivered = await outbox.update(id, (current) => ({
+      ...current,
+      state: 'sent',
+      attempts: current.attempts + 1,
+      lastError: undefined,
+      sentAt: now,
+      updatedAt: now,
+    }));
+  } catch (error) {
+    const { maxAttempts } = applicationConfig.discordBot.outbox;
+    const lastError = error instanceof Error ? error.message : String(error);
+    delivered = await outbox.update(id, (current) => {
+      const attempts = current.attempts + 1;
+      return {
+        ...current,
+        state: attempts >= maxAttempts ? 'dead' : 'failed',
+        attempts,
+        lastError,
+        nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts)).toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+    });
+    if (delivered?.state === 'dead') {
+      console.error(`Failed to send message to user ${message.userId} after ${delivered.attempts} attempts - moved to dead letters`);
+    } else if (delivered) {
+      console.log(`Retrying message to user ${message.userId} (attempt ${delivered.attempts}/${maxAttempts}) at ${delivered.nextAttemptAt}`);
     }
   }
-  setTimeout(() => processMessageQueue(), 1000);
+
+  if (delivered) {
+    await recordDelivery(delivered);
+  }
+  return delivered;
+}
+
+async function processOutbox() {
+  if (!isReady) return;
+
+  await withOutboxLock(async () => {
+    try {
+      const outbox = await getOutboxStore();
+      const dueMessages = await outbox.listDue(new Date());
+      if (dueMessages.length === 0) return;
+
+      console.log(`Processing ${dueMessages.length} queued Discord messages...`);
+      for (const message of dueMessages) {
+        if (!isReady) break;
+        await deliverMessage(message.id);
+      }
+    } catch (error) {
+      console.error('Failed to process the Discord message outbox:', error);
+    }
+  });
 }
 
-async function sendDirectMessageInternal(userId: string, status: 'approved' | 'denied', reason?: string): Promise<void> {
+async function sendDirectMessageInternal(
+  userId: string,
+  template: MessageTemplateType,
+  variables: TemplateVariables,
+  applicationType?: string
+): Promise<void> {
   if (!client) {
     throw new Error('Discord bot not initialized');
   }
 
-  const timestamp = Math.floor(Date.now() / 1000);
-  const timestampLong = `<t:${timestamp}:F>`;
+  const templates = await getMessageTemplates(applicationType);
+  // Messages queued before decisionDate was part of the variables fall back
+  // to the time of sending.
+  const rendered = renderTemplate(templates[template], {
+    serverName: applicationConfig.discordBot.serverName,
+    decisionDate: `<t:${Math.floor(Date.now() / 1000)}:F>`,
+    ...variables,
+  });
 
   const embed = new EmbedBuilder()
-    .setColor(status === 'approved' ? '#00FF00' : '#FF0000')
+    .setColor(rendered.color as `#${string}`)
     .setAuthor({
       name: applicationConfig.discordBot.serverName,
       iconURL: applicationConfig.discordBot.serverIcon,
     })
-    .setTitle('Whitelist Application Response')
-    .setDescription(
-      status === 'approved'
-        ? `Hello there,\n\nAfter reviewing your application, we're excited to let you know that your whitelist application has been **ACCEPTED**! 🎉\n\nYour responses demonstrated a strong understanding of roleplay and alignment with our community values. We believe you'll be a great addition to our server!\n\n**Next Steps:**\n1. Join our Discord server if you haven't already\n2. Read the rules and guidelines in #server-rules\n3. Connect to the server using your whitelisted Steam account`
-        : `Hello there,\n\nAfter careful consideration of your whitelist application, we regret to inform you that your application has been **DENIED** at this time.\n\nYou may reapply after a 14-day waiting period, taking into account the feedback provided.`
-    )
-    .addFields(
-      {
-        name: 'Application Status',
-        value: status === 'approved' ? '✅ Accepted' : '❌ Denied',
-        inline: true
-      },
-      {
-        name: 'Decision Date',
-        value: timestampLong,
-        inline: true
-      }
-    );
+    .setTitle(rendered.title)
+    .setDescription(rendered.description)
+    .addFields(rendered.fields)
+    .setTimestamp();
 
-  if (reason) {
-    embed.addFields({
-      name: status === 'approved' ? 'Staff Note' : 'Reason',
-      value: reason,
-      inline: false
-    });
-  }
-
-  embed.setFooter({
-    text: applicationConfig.discordBot.footerText,
-    iconURL: applicationConfig.discordBot.serverIcon
-  })
-  .setTimestamp();
-
-  if (status === 'approved') {
-    embed.addFields({
-      name: 'Important Information',
-      value: 'Please make sure to read our server rules and guidelines before connecting. If you have any questions, our staff team is here to help!'
+  if (rendered.footer) {
+    embed.setFooter({
+      text: rendered.footer,
+      iconURL: applicationConfig.discordBot.serverIcon
     });
   }
 
@@ -163,40 +270,246 @@ async function sendDirectMessageInternal(userId: string, status: 'approved' | 'd
   }
 }
 
-export async function sendDirectMessage(userId: string, status: 'approved' | 'denied', reason?: string): Promise<void> {
+// Stores the DM in the outbox and tries to deliver it right away. The
+// message template is rendered with `variables` when it is sent, from the
+// templates of `applicationType`. With `delaySeconds` the first attempt waits
+// that long, and the message can be withdrawn with cancelMessage until then.
+// Resolves to true when the DM was sent; otherwise it stays queued for retry.
+export async function sendDirectMessage(
+  userId: string,
+  template: MessageTemplateType,
+  variables: TemplateVariables,
+  applicationId?: string,
+  { delaySeconds = 0, applicationType }: { delaySeconds?: number; applicationType?: string } = {}
+): Promise<boolean> {
   if (!client) {
     console.log('Discord bot not initialized, initializing now...');
     initializeDiscordBot();
     await new Promise(resolve => setTimeout(resolve, 1000));
   }
 
+  const outbox = await getOutboxStore();
+  const now = new Date().toISOString();
+  const message = await outbox.enqueue({
+    id: randomUUID(),
+    applicationId,
+    userId,
+    payload: { status: template, reason: variables.reason, variables, applicationType },
+    state: 'pending',
+    attempts: 0,
+    nextAttemptAt: new Date(Date.now() + delaySeconds * 1000).toISOString(),
+    createdAt: now,
+    updatedAt: now,
+  });
+  await recordDelivery(message);
+
+  if (delaySeconds > 0) {
+    // The outbox worker picks the message up if the process restarts first.
+    setTimeout(() => {
+      if (isReady) {
+        withOutboxLock(() => deliverMessage(message.id)).catch((error) =>
+          console.error(`Failed to send delayed message ${message.id}:`, error)
+        );
+      }
+    }, delaySeconds * 1000);
+    return false;
+  }
+
   if (!isReady) {
-    console.log(`Bot not ready, queuing message for user ${userId}`);
-    messageQueue.push({ userId, status, reason, retries: 0 });
-    return;
+    console.log(`Bot not ready, queued message for user ${userId}`);
+    return false;
+  }
+
+  const delivered = await withOutboxLock(() => deliverMessage(message.id));
+  return delivered?.state === 'sent';
+}
+
+// Withdraws a message that is queued or waiting for a retry, recording the
+// 'cancelled' state on its application. Resolves to false when it was
+// already sent or given up on.
+export async function cancelMessage(id: string): Promise<boolean> {
+  const outbox = await getOutboxStore();
+  const message = await withOutboxLock(() =>
+    outbox.update(id, (current) =>
+      current.state === 'pending' || current.state === 'failed'
+        ? { ...current, state: 'cancelled', updatedAt: new Date().toISOString() }
+        : current
+    )
+  );
+  if (message?.state !== 'cancelled') return false;
+
+  await recordDelivery(message);
+  return true;
+}
+
+// Puts a failed or dead message back in the queue with a fresh set of attempts.
+export async function resendMessage(id: string): Promise<OutboxMessage | null> {
+  const outbox = await getOutboxStore();
+  const now = new Date().toISOString();
+  const message = await outbox.update(id, (current) => ({
+    ...current,
+    state: 'pending',
+    attempts: 0,
+    lastError: undefined,
+    nextAttemptAt: now,
+    updatedAt: now,
+  }));
+  if (!message) return null;
+
+  await recordDelivery(message);
+  if (!isReady) return message;
+
+  return withOutboxLock(() => deliverMessage(id));
+}
+
+// Gives an approved applicant the guild roles configured for the
+// application type and removes the applicant roles. Resolves to null when no
+// roles are configured.
+export async function assignApprovalRoles(userId: string, applicationType?: string): Promise<RoleAssignment | null> {
+  const { guildId } = applicationConfig.discordBot;
+  const type = getApplicationTypeConfig(applicationType);
+  const approvalRoles = getApprovalRoles(type);
+  if (!guildId || !hasApprovalRoles(type)) {
+    return null;
+  }
+
+  const updatedAt = new Date().toISOString();
+
+  if (!client || !isReady) {
+    return { status: 'pending', updatedAt, error: 'Discord bot is not connected' };
+  }
+
+  try {
+    const guild = await client.guilds.fetch(guildId);
+    const member = await guild.members.fetch(userId);
+    if (approvalRoles.remove.length > 0) {
+      await member.roles.remove(approvalRoles.remove, `${type.label} application approved`);
+    }
+    if (approvalRoles.add.length > 0) {
+      await member.roles.add(approvalRoles.add, `${type.label} application approved`);
+    }
+    console.log(`Assigned approval roles to user ${userId}`);
+    return { status: 'assigned', updatedAt };
+  } catch (error) {
+    if (error instanceof DiscordAPIError && error.code === RESTJSONErrorCodes.UnknownMember) {
+      console.log(`User ${userId} has not joined the guild yet, roles will be assigned when they join`);
+      return { status: 'pending', updatedAt, error: 'User has not joined the guild yet' };
+    }
+    console.error(`Failed to assign approval roles to user ${userId}:`, error);
+    return { status: 'failed', updatedAt, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Takes back the roles added on approval, e.g. when the application is
+// reopened. Roles removed on approval are not restored.
+export async function revokeApprovalRoles(userId: string, applicationType?: string): Promise<boolean> {
+  const { guildId } = applicationConfig.discordBot;
+  const type = getApplicationTypeConfig(applicationType);
+  const approvalRoles = getApprovalRoles(type);
+  if (!guildId || approvalRoles.add.length === 0 || !client || !isReady) {
+    return false;
+  }
+
+  try {
+    const guild = await client.guilds.fetch(guildId);
+    const member = await guild.members.fetch(userId);
+    await member.roles.remove(approvalRoles.add, `${type.label} application reopened`);
+    console.log(`Revoked approval roles from user ${userId}`);
+    return true;
+  } catch (error) {
+    console.error(`Failed to revoke approval roles from user ${userId}:`, error);
+    return false;
   }
+}
+
+export type DiscordMemberProfile = {
+  id: string;
+  username: string;
+  avatar?: string;
+  guildRoleIds: string[];
+};
+
+// Looks a user up through the bot, with their roles in the configured guild.
+// Resolves to null when the bot is not connected or the user is unknown.
+export async function fetchMemberProfile(userId: string): Promise<DiscordMemberProfile | null> {
+  if (!client || !isReady) return null;
 
   try {
-    await sendDirectMessageInternal(userId, status, reason);
+    const user = await client.users.fetch(userId);
+    const { guildId } = applicationConfig.discordBot;
+    const member = guildId
+      ? await client.guilds.fetch(guildId).then((guild) => guild.members.fetch(userId)).catch(() => null)
+      : null;
+    return {
+      id: user.id,
+      username: user.username,
+      avatar: user.avatar ?? undefined,
+      guildRoleIds: member ? [...member.roles.cache.keys()] : [],
+    };
   } catch (error) {
-    console.error(`Immediate send failed for user ${userId}, queuing for retry:`, error);
-    messageQueue.push({ userId, status, reason, retries: 0 });
-    console.log(`Message queued for retry to user ${userId}`);
+    console.error(`Failed to look up Discord user ${userId}:`, error);
+    return null;
   }
 }
 
-export function getBotStatus() {
+// When the decision of an application can no longer be undone.
+const getUndoDeadline = (application: Application) => {
+  const decision = application.stageHistory?.at(-1);
+  return decision ? Date.parse(decision.at) + applicationConfig.decisionUndoSeconds * 1000 : 0;
+};
+
+// Retries the role assignments left pending because the applicant was not in
+// the guild or the bot was offline, for one user or for every approved user.
+// Decisions still inside their undo window are retried once it has passed.
+async function retryPendingRoleAssignments(userId?: string) {
+  try {
+    const store = await getApplicationStore();
+    const applications = userId ? await store.listByDiscordId(userId) : await store.listArchived();
+
+    for (const application of applications) {
+      if (application.status !== 'approved' || application.roleAssignment?.status !== 'pending') {
+        continue;
+      }
+
+      const undoRemaining = getUndoDeadline(application) - Date.now();
+      if (undoRemaining > 0) {
+        setTimeout(() => retryPendingRoleAssignments(application.discord.id), undoRemaining);
+        continue;
+      }
+
+      // Null when the roles have been removed from the config since.
+      const roleAssignment = await assignApprovalRoles(application.discord.id, application.applicationType);
+      await store.updateArchived(application.id, (app) => ({ ...app, roleAssignment: roleAssignment ?? undefined }));
+    }
+  } catch (error) {
+    console.error('Failed to retry pending role assignments:', error);
+  }
+}
+
+// The connected client, or null while the bot is offline.
+export function getReadyClient(): Client | null {
+  return isReady ? client : null;
+}
+
+export async function getBotStatus() {
+  const outbox = await getOutboxStore();
+  const [queued, deadLetters] = await Promise.all([
+    outbox.list(['pending', 'failed']),
+    outbox.list(['dead']),
+  ]);
+
   return {
     initialized: !!client,
     ready: isReady,
-    queueLength: messageQueue.length,
+    queueLength: queued.length,
+    deadLetterCount: deadLetters.length,
     user: client?.user?.tag || null,
   };
 }
 
 export function forceProcessQueue() {
   if (isReady) {
-    processMessageQueue();
+    processOutbox();
   }
 }
 
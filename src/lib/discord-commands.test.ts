@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { applicationConfig } from './config';
+import { handleApplicationCommand, type CommandContext, type CommandDependencies } from './discord-commands';
+import type { Application, ApplicationStore, StaffMember } from './storage';
+
+const applicant: StaffMember = { id: '111111111111111111', username: 'applicant' };
+const reviewer: StaffMember = { id: '222222222222222222', username: 'reviewer' };
+
+const createApplication = (id: string, fields: Partial<Application> = {}): Application => ({
+  id,
+  timestamp: '2026-01-01T12:00:00.000Z',
+  discord: { id: applicant.id, username: applicant.username },
+  status: 'pending',
+  ...fields,
+}) as Application;
+
+// Only the store methods the commands read.
+const createStore = (applications: Application[]) => ({
+  listPending: async () => applications.filter((app) => (app.status ?? 'pending') === 'pending'),
+  listByDiscordId: async (discordId: string) => applications.filter((app) => app.discord.id === discordId),
+  get: async (id: string) => applications.find((app) => app.id === id) ?? null,
+}) as unknown as ApplicationStore;
+
+const createDependencies = (applications: Application[], discordMessageSent: boolean | null = false) => {
+  const decisions: Parameters<CommandDependencies['decide']>[] = [];
+  const dependencies: CommandDependencies = {
+    getStore: async () => createStore(applications),
+    decide: async (...args) => {
+      decisions.push(args);
+      const application = applications.find((app) => app.id === args[0]);
+      if (!application) {
+        return { error: 'notFound', message: 'Application not found' };
+      }
+      return { application: { ...application, status: args[1] }, discordMessageSent, roleAssignment: null };
+    },
+    vote: async () => {
+      throw new Error('Voting is not enabled');
+    },
+  };
+  return { dependencies, decisions };
+};
+
+const run = (
+  user: StaffMember,
+  memberRoleIds: string[],
+  subcommand: string,
+  options: CommandContext['options'],
+  dependencies: CommandDependencies
+) => handleApplicationCommand({ user, memberRoleIds, subcommand, options }, dependencies);
+
+describe('application slash command', () => {
+  before(() => {
+    applicationConfig.voting.enabled = false;
+    applicationConfig.staffRoles.viewer.guildRoleIds = ['viewer-role'];
+    applicationConfig.staffRoles.reviewer.guildRoleIds = ['reviewer-role'];
+  });
+
+  it('tells applicants without applications that they have none', async () => {
+    const { dependencies } = createDependencies([]);
+
+    const reply = await run(applicant, [], 'status', {}, dependencies);
+
+    assert.equal(reply.content, 'You have not submitted a whitelist application yet.');
+  });
+
+  it('shows the status and reason of the latest application', async () => {
+    const { dependencies } = createDependencies([
+      createApplication('old', { timestamp: '2025-01-01T12:00:00.000Z', status: 'approved' }),
+      createApplication('latest', { status: 'denied', statusReason: 'Too short', permanentBan: true }),
+    ]);
+
+    const reply = await run(applicant, [], 'status', {}, dependencies);
+
+    assert.match(reply.content ?? '', /is \*\*denied\*\*/);
+    assert.match(reply.content ?? '', /Reason: Too short/);
+    assert.match(reply.content ?? '', /You are not able to apply again\./);
+  });
+
+  it('shows an application to staff', async () => {
+    const { dependencies } = createDependencies([createApplication('app-1')]);
+
+    const reply = await run(reviewer, ['viewer-role'], 'view', { id: 'app-1' }, dependencies);
+
+    assert.equal(reply.embeds?.length, 1);
+    assert.match(reply.embeds[0].data.description ?? '', new RegExp(applicant.id));
+  });
+
+  it('answers a view of an unknown application', async () => {
+    const { dependencies } = createDependencies([]);
+
+    const reply = await run(reviewer, ['viewer-role'], 'view', { id: 'missing' }, dependencies);
+
+    assert.equal(reply.content, 'No application found with that ID.');
+  });
+
+  it('approves an application', async () => {
+    const { dependencies, decisions } = createDependencies([createApplication('app-1')]);
+
+    const reply = await run(reviewer, ['reviewer-role'], 'decide', { id: 'app-1', decision: 'approved' }, dependencies);
+
+    assert.deepEqual(decisions, [['app-1', 'approved', undefined, reviewer]]);
+    assert.equal(reply.content, 'Application `app-1` approved. The notification has been queued for delivery.');
+  });
+
+  it('denies an application with a reason', async () => {
+    const { dependencies, decisions } = createDependencies([createApplication('app-1')], true);
+
+    const reply = await run(
+      reviewer,
+      ['reviewer-role'],
+      'decide',
+      { id: 'app-1', decision: 'denied', reason: 'Incomplete answers' },
+      dependencies
+    );
+
+    assert.deepEqual(decisions, [['app-1', 'denied', 'Incomplete answers', reviewer]]);
+    assert.equal(reply.content, 'Application `app-1` denied. The applicant has been notified.');
+  });
+
+  it('refuses staff commands to members without the permission', async () => {
+    const { dependencies, decisions } = createDependencies([createApplication('app-1')]);
+
+    for (const [memberRoleIds, subcommand] of [
+      [[], 'list'],
+      [[], 'view'],
+      [[], 'decide'],
+      [['viewer-role'], 'decide'],
+    ] as const) {
+      const reply = await run(applicant, [...memberRoleIds], subcommand, { id: 'app-1', decision: 'approved' }, dependencies);
+      assert.equal(reply.content, 'You do not have permission to use this command.', `${subcommand} with ${memberRoleIds}`);
+    }
+    assert.deepEqual(decisions, []);
+  });
+});
@@ -0,0 +1,233 @@
+import {
+  SlashCommandBuilder,
+  type ChatInputCommandInteraction,
+  type Client,
+  type EmbedBuilder,
+} from 'discord.js';
+import { canReviewApplication, filterReviewable, getApplicationType } from './application-types';
+import { applicationConfig, type StaffPermission } from './config';
+import { castVote, decideApplication, isTransitionError, type Decision } from './decisions';
+import { buildApplicationEmbed, getMemberRoleIds } from './discord-review';
+import { getStaffRole, hasPermission, redactApplication } from './permissions';
+import { getApplyEligibility } from './reapplication';
+import { getApplicationStage } from './review-stages';
+import { getApplicationStore, type ApplicationStore, type StaffMember } from './storage';
+import { formatVoteTally, isVotingEnabled } from './voting';
+
+export const applicationCommand = new SlashCommandBuilder()
+  .setName('application')
+  .setDescription('Whitelist applications')
+  .addSubcommand((subcommand) =>
+    subcommand.setName('status').setDescription('See where your whitelist application stands')
+  )
+  .addSubcommand((subcommand) =>
+    subcommand.setName('list').setDescription('List pending applications (staff)')
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('view')
+      .setDescription('Show an application (staff)')
+      .addStringOption((option) => option.setName('id').setDescription('Application ID').setRequired(true))
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('decide')
+      .setDescription('Approve or deny an application, or vote when voting is enabled (staff)')
+      .addStringOption((option) => option.setName('id').setDescription('Application ID').setRequired(true))
+      .addStringOption((option) =>
+        option
+          .setName('decision')
+          .setDescription('Approve or deny')
+          .setRequired(true)
+          .addChoices({ name: 'approve', value: 'approved' }, { name: 'deny', value: 'denied' })
+      )
+      .addStringOption((option) => option.setName('reason').setDescription('Reason sent to the applicant, or a comment on your vote'))
+  );
+
+// Everything a command handler needs from the interaction, so handlers can
+// be called without a gateway connection.
+export type CommandContext = {
+  user: StaffMember;
+  memberRoleIds: string[];
+  subcommand: string;
+  options: {
+    id?: string;
+    decision?: Decision;
+    reason?: string;
+  };
+};
+
+export type CommandReply = {
+  content?: string;
+  embeds?: EmbedBuilder[];
+};
+
+export type CommandDependencies = {
+  getStore: () => Promise<ApplicationStore>;
+  decide: typeof decideApplication;
+  vote: typeof castVote;
+};
+
+const defaultDependencies: CommandDependencies = {
+  getStore: getApplicationStore,
+  decide: decideApplication,
+  vote: castVote,
+};
+
+const noPermissionReply: CommandReply = { content: 'You do not have permission to use this command.' };
+
+const formatDate = (value: string) => `<t:${Math.floor(new Date(value).getTime() / 1000)}:f>`;
+
+export async function handleApplicationCommand(
+  context: CommandContext,
+  { getStore, decide, vote }: CommandDependencies = defaultDependencies
+): Promise<CommandReply> {
+  const role = getStaffRole(context.user.id, context.memberRoleIds);
+  const can = (permission: StaffPermission) => hasPermission(role, permission);
+  const store = await getStore();
+
+  switch (context.subcommand) {
+    case 'status': {
+      const applications = await store.listByDiscordId(context.user.id);
+      const latest = applications.sort((a, b) => b.timestamp.localeCompare(a.timestamp))[0];
+      if (!latest) {
+        return { content: 'You have not submitted a whitelist application yet.' };
+      }
+
+      const status = latest.status ?? 'pending';
+      const lines = [
+        `Your ${getApplicationType(latest).label.toLowerCase()} application submitted ${formatDate(latest.timestamp)} is **${
+          status === 'pending' ? getApplicationStage(latest).label.toLowerCase() : status
+        }**.`,
+      ];
+      if (status !== 'pending' && latest.statusReason) {
+        lines.push(`Reason: ${latest.statusReason}`);
+      }
+      const eligibility = getApplyEligibility(applications, latest.applicationType);
+      if (!eligibility.allowed && eligibility.reason !== 'pending') {
+        lines.push(
+          eligibility.reapplyAfter ? `You can apply again ${formatDate(eligibility.reapplyAfter)}.` : eligibility.message
+        );
+      }
+      return { content: lines.join('\n') };
+    }
+
+    case 'list': {
+      if (!can('viewApplications')) return noPermissionReply;
+
+      const applications = filterReviewable(await store.listPending(), role);
+      if (applications.length === 0) {
+        return { content: 'There are no pending applications.' };
+      }
+
+      const lines = applications
+        .slice(0, 25)
+        .map((application) =>
+          `\`${application.id}\` ${getApplicationType(application).label} <@${application.discord.id}> - ${formatDate(application.timestamp)}`
+        );
+      if (applications.length > 25) {
+        lines.push(`…and ${applications.length - 25} more`);
+      }
+      return { content: `**${applications.length} pending application(s)**\n${lines.join('\n')}` };
+    }
+
+    case 'view': {
+      if (!can('viewApplications')) return noPermissionReply;
+
+      const application = context.options.id ? await store.get(context.options.id) : null;
+      if (!application) {
+        return { content: 'No application found with that ID.' };
+      }
+      if (!canReviewApplication(role, application)) return noPermissionReply;
+
+      const includePii = can('viewPii');
+      return {
+        embeds: [buildApplicationEmbed(includePii ? application : redactApplication(application), { includePii })],
+      };
+    }
+
+    case 'decide': {
+      if (!can('decide')) return noPermissionReply;
+
+      const { id, decision, reason } = context.options;
+      if (!id || !decision) {
+        return { content: 'Please provide an application ID and a decision.' };
+      }
+      const application = await store.get(id);
+      if (application && !canReviewApplication(role, application)) return noPermissionReply;
+
+      if (isVotingEnabled()) {
+        const result = await vote(id, decision, reason, context.user, { veto: can('veto') });
+        if (isTransitionError(result)) {
+          return {
+            content: result.error === 'notFound' ? 'No pending application found with that ID.' : `${result.message}.`,
+          };
+        }
+        if (result.decision && isTransitionError(result.decision)) {
+          return { content: `Vote recorded. ${result.decision.message}.` };
+        }
+        return {
+          content: `Vote recorded: ${formatVoteTally(result.tally)}.${
+            result.decision ? ` Application \`${id}\` ${result.tally.outcome}.` : ''
+          }`,
+        };
+      }
+
+      const result = await decide(id, decision, reason, context.user);
+      if (isTransitionError(result)) {
+        return {
+          content: result.error === 'notFound' ? 'No pending application found with that ID.' : `${result.message}.`,
+        };
+      }
+
+      const notification = result.discordMessageSent === null
+        ? ''
+        : result.discordMessageSent ? ' The applicant has been notified.' : ' The notification has been queued for delivery.';
+      return { content: `Application \`${id}\` ${decision}.${notification}` };
+    }
+
+    default:
+      return { content: 'Unknown command.' };
+  }
+}
+
+export async function handleCommandInteraction(interaction: ChatInputCommandInteraction): Promise<void> {
+  if (interaction.commandName !== applicationCommand.name) return;
+
+  try {
+    await interaction.deferReply({ ephemeral: true });
+    const reply = await handleApplicationCommand({
+      user: { id: interaction.user.id, username: interaction.user.username },
+      memberRoleIds: getMemberRoleIds(interaction.member),
+      subcommand: interaction.options.getSubcommand(),
+      options: {
+        id: interaction.options.getString('id') ?? undefined,
+        decision: (interaction.options.getString('decision') as Decision | null) ?? undefined,
+        reason: interaction.options.getString('reason') ?? undefined,
+      },
+    });
+    await interaction.editReply(reply);
+  } catch (error) {
+    console.error('Failed to handle application command:', error);
+    if (interaction.deferred) {
+      await interaction.editReply({ content: 'Something went wrong while running this command.' }).catch(() => undefined);
+    }
+  }
+}
+
+// Registers the commands in the configured guild, where updates apply
+// immediately, or globally when no guild is configured.
+export async function registerSlashCommands(client: Client<true>): Promise<void> {
+  try {
+    const { guildId } = applicationConfig.discordBot;
+    const commands = [applicationCommand.toJSON()];
+    if (guildId) {
+      await client.application.commands.set(commands, guildId);
+    } else {
+      await client.application.commands.set(commands);
+    }
+    console.log(`Registered slash commands ${guildId ? `in guild ${guildId}` : 'globally'}`);
+  } catch (error) {
+    console.error('Failed to register slash commands:', error);
+  }
+}
@@ -0,0 +1,322 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  EmbedBuilder,
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+  type ButtonInteraction,
+  type GuildMember,
+  type Interaction,
+  type ModalSubmitInteraction,
+} from 'discord.js';
+import { canReviewApplication, formatAnswer, getApplicationFields, getApplicationType } from './application-types';
+import { getBlacklistTypeLabel } from './blacklist';
+import { applicationConfig } from './config';
+import { getActiveClaim } from './claims';
+import type { ReviewStageConfig, StaffPermission } from './config';
+import { castVote, isTransitionError, moveApplication } from './decisions';
+import { getMatchLabel } from './duplicates';
+import { discordUserIdPattern } from './form-schema';
+import { getReadyClient } from './discord-bot';
+import { getStaffRole, hasPermission } from './permissions';
+import { getApplicationStage, getNextStages, getStage } from './review-stages';
+import { getApplicationStore, type Application } from './storage';
+import { formatVoteTally, getVoteTally, isVotingEnabled } from './voting';
+
+// Custom IDs are `<prefix>:<stageId>:<applicationId>`.
+const reviewButtonPrefix = 'review';
+const reviewModalPrefix = 'review-modal';
+
+const truncate = (value: string, length: number) =>
+  value.length > length ? `${value.slice(0, length - 1)}…` : value;
+
+const getApplicationUrl = (application: Application) =>
+  `${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/admin/applications#${application.id}`;
+
+// Sums up an application for staff. Answers marked as `pii` are only
+// included with `includePii`, since the review channel may be readable by
+// staff without the viewPii permission.
+export function buildApplicationEmbed(application: Application, { includePii = false } = {}) {
+  const embed = new EmbedBuilder()
+    .setColor('#5865F2')
+    .setAuthor({
+      name: applicationConfig.discordBot.serverName,
+      iconURL: applicationConfig.discordBot.serverIcon,
+    })
+    .setTitle(`${application.status === 'pending' || !application.status ? 'New ' : ''}${getApplicationType(application).label} Application`)
+    .setDescription(`Submitted by <@${application.discord.id}> (${application.discord.username})`)
+    .setTimestamp(new Date(application.timestamp));
+
+  if (application.status === 'pending' || !application.status) {
+    embed.addFields({ name: 'Stage', value: getApplicationStage(application).label });
+
+    const claim = getActiveClaim(application);
+    if (claim) {
+      embed.addFields({
+        name: 'Claimed by',
+        value: `<@${claim.by.id}> until <t:${Math.floor(new Date(claim.expiresAt).getTime() / 1000)}:t>`,
+      });
+    }
+  }
+
+  getApplicationFields(application)
+    .filter((field) => includePii || !field.pii)
+    .map((field) => ({ field, value: formatAnswer(field, application[field.name]) }))
+    .filter(({ value }) => value !== '')
+    .slice(0, 20)
+    .forEach(({ field, value }) => {
+      embed.addFields({
+        name: field.label,
+        // User IDs are shown as mentions so staff can open the profile
+        value: field.type === 'discordUser' && discordUserIdPattern.test(value) ? `<@${value}>` : truncate(value, 1024),
+        inline: field.type !== 'textarea',
+      });
+    });
+
+  if (application.status === 'approved' || application.status === 'denied') {
+    embed
+      .setColor(application.status === 'approved' ? '#00FF00' : '#FF0000')
+      .addFields({
+        name: 'Decision',
+        value: `${application.status === 'approved' ? '✅ Approved' : '❌ Denied'} by ${
+          application.decidedBy ? `<@${application.decidedBy.id}>` : 'staff'
+        }`,
+      });
+    if (application.statusReason) {
+      embed.addFields({ name: 'Reason', value: truncate(application.statusReason, 1024) });
+    }
+  }
+
+  if (application.blacklistMatches?.length) {
+    embed.addFields({
+      name: '⛔ Matches the blacklist',
+      value: truncate(
+        application.blacklistMatches.map((match) => `${getBlacklistTypeLabel(match.type)}: ${match.reason}`).join('\n'),
+        1024
+      ),
+    });
+  }
+
+  if (application.duplicates?.length) {
+    embed.addFields({
+      name: '⚠️ Possible duplicates',
+      value: truncate(
+        application.duplicates
+          .map((match) => `<@${match.discord.id}> (${match.status}): ${match.matchedOn.map(getMatchLabel).join(', ')}`)
+          .join('\n'),
+        1024
+      ),
+    });
+  }
+
+  if (application.votes?.length) {
+    embed.addFields({ name: 'Votes', value: formatVoteTally(getVoteTally(application.votes)) });
+  }
+
+  return embed;
+}
+
+// With voting enabled, the buttons for final stages cast a vote instead.
+const getButtonLabel = (stage: ReviewStageConfig) => {
+  if (!stage.outcome || !isVotingEnabled()) return stage.label;
+  return stage.outcome === 'approved' ? 'Vote Approve' : 'Vote Deny';
+};
+
+const getButtonStyle = (stage: ReviewStageConfig) => {
+  if (stage.outcome === 'approved') return ButtonStyle.Success;
+  if (stage.outcome === 'denied') return ButtonStyle.Danger;
+  return ButtonStyle.Primary;
+};
+
+// One button per stage the application can move to next, plus a link to the
+// admin panel, in rows of at most five.
+function buildReviewComponents(application: Application) {
+  const openButton = new ButtonBuilder()
+    .setLabel('Open')
+    .setStyle(ButtonStyle.Link)
+    .setURL(getApplicationUrl(application));
+
+  const stageButtons = application.status === 'approved' || application.status === 'denied'
+    ? []
+    : getNextStages(getApplicationStage(application)).map((stage) =>
+        new ButtonBuilder()
+          .setCustomId(`${reviewButtonPrefix}:${stage.id}:${application.id}`)
+          .setLabel(getButtonLabel(stage))
+          .setStyle(getButtonStyle(stage))
+      );
+
+  const buttons = [...stageButtons, openButton];
+  const rows: ActionRowBuilder<ButtonBuilder>[] = [];
+  for (let i = 0; i < buttons.length && rows.length < 5; i += 5) {
+    rows.push(new ActionRowBuilder<ButtonBuilder>().addComponents(buttons.slice(i, i + 5)));
+  }
+  return rows;
+}
+
+// Posts a new application to the staff review channel and remembers the
+// message so the outcome can be shown on it later.
+export async function postApplicationForReview(application: Application): Promise<void> {
+  const { reviewChannelId } = applicationConfig.discordBot;
+  const client = getReadyClient();
+  if (!reviewChannelId || !client) return;
+
+  try {
+    const channel = await client.channels.fetch(reviewChannelId);
+    if (!channel?.isSendable()) {
+      console.error(`Review channel ${reviewChannelId} not found or not a text channel`);
+      return;
+    }
+
+    const message = await channel.send({
+      embeds: [buildApplicationEmbed(application)],
+      components: buildReviewComponents(application),
+    });
+
+    const store = await getApplicationStore();
+    await store.updatePending(application.id, (pending) => ({
+      ...pending,
+      reviewMessage: { channelId: message.channelId, messageId: message.id },
+    }));
+  } catch (error) {
+    console.error(`Failed to post application ${application.id} to the review channel:`, error);
+  }
+}
+
+// Refreshes the review message of an application, e.g. to show a decision
+// made on the website.
+export async function updateReviewMessage(application: Application): Promise<void> {
+  const client = getReadyClient();
+  if (!application.reviewMessage || !client) return;
+
+  try {
+    const channel = await client.channels.fetch(application.reviewMessage.channelId);
+    if (!channel?.isTextBased()) return;
+
+    const message = await channel.messages.fetch(application.reviewMessage.messageId);
+    await message.edit({
+      embeds: [buildApplicationEmbed(application)],
+      components: buildReviewComponents(application),
+    });
+  } catch (error) {
+    console.error(`Failed to update the review message of application ${application.id}:`, error);
+  }
+}
+
+export function getMemberRoleIds(member: Interaction['member']): string[] {
+  if (!member) return [];
+  return Array.isArray(member.roles) ? member.roles : [...(member as GuildMember).roles.cache.keys()];
+}
+
+const can = (interaction: ButtonInteraction | ModalSubmitInteraction, permission: StaffPermission) =>
+  hasPermission(getStaffRole(interaction.user.id, getMemberRoleIds(interaction.member)), permission);
+
+// Whether the user may decide application `id`, which also depends on the
+// reviewer roles of its type.
+async function canDecide(interaction: ButtonInteraction | ModalSubmitInteraction, id: string) {
+  if (!can(interaction, 'decide')) return false;
+  const application = await (await getApplicationStore()).get(id);
+  return !application || canReviewApplication(getStaffRole(interaction.user.id, getMemberRoleIds(interaction.member)), application);
+}
+
+function parseCustomId(customId: string, prefix: string) {
+  const [customIdPrefix, stageId, applicationId] = customId.split(':');
+  const stage = getStage(stageId);
+  if (customIdPrefix !== prefix || !stage || !applicationId) return null;
+  return { stage, applicationId };
+}
+
+const isVote = (stage: ReviewStageConfig) => !!stage.outcome && isVotingEnabled();
+
+const getModalTitle = (stage: ReviewStageConfig) => {
+  if (isVote(stage)) return stage.outcome === 'approved' ? 'Vote to Approve' : 'Vote to Deny';
+  if (stage.outcome === 'approved') return 'Approve Application';
+  if (stage.outcome === 'denied') return 'Deny Application';
+  return truncate(`Move to ${stage.label}`, 45);
+};
+
+async function handleReviewButton(interaction: ButtonInteraction) {
+  const parsed = parseCustomId(interaction.customId, reviewButtonPrefix);
+  if (!parsed) return;
+
+  if (!(await canDecide(interaction, parsed.applicationId))) {
+    await interaction.reply({ content: 'You do not have permission to decide this application.', ephemeral: true });
+    return;
+  }
+
+  const modal = new ModalBuilder()
+    .setCustomId(`${reviewModalPrefix}:${parsed.stage.id}:${parsed.applicationId}`)
+    .setTitle(getModalTitle(parsed.stage))
+    .addComponents(
+      new ActionRowBuilder<TextInputBuilder>().addComponents(
+        new TextInputBuilder()
+          .setCustomId('reason')
+          .setLabel(
+            isVote(parsed.stage)
+              ? 'Comment for other reviewers (optional)'
+              : parsed.stage.outcome === 'denied' ? 'Reason (optional)' : 'Staff note (optional)'
+          )
+          .setStyle(TextInputStyle.Paragraph)
+          .setRequired(false)
+          .setMaxLength(1000)
+      )
+    );
+
+  await interaction.showModal(modal);
+}
+
+async function handleReviewModal(interaction: ModalSubmitInteraction) {
+  const parsed = parseCustomId(interaction.customId, reviewModalPrefix);
+  if (!parsed) return;
+
+  if (!(await canDecide(interaction, parsed.applicationId))) {
+    await interaction.reply({ content: 'You do not have permission to decide this application.', ephemeral: true });
+    return;
+  }
+
+  await interaction.deferReply({ ephemeral: true });
+
+  const reason = interaction.fields.getTextInputValue('reason').trim() || undefined;
+  const staffMember = { id: interaction.user.id, username: interaction.user.username };
+
+  if (parsed.stage.outcome && isVote(parsed.stage)) {
+    const vote = await castVote(parsed.applicationId, parsed.stage.outcome, reason, staffMember, {
+      veto: can(interaction, 'veto'),
+    });
+    if (isTransitionError(vote)) {
+      await interaction.editReply(`${vote.message}.`);
+    } else if (vote.decision && isTransitionError(vote.decision)) {
+      await interaction.editReply(`Vote recorded. ${vote.decision.message}.`);
+    } else {
+      await interaction.editReply(
+        `Vote recorded: ${formatVoteTally(vote.tally)}.${vote.decision ? ` The application has been ${vote.tally.outcome}.` : ''}`
+      );
+    }
+    return;
+  }
+
+  const result = await moveApplication(parsed.applicationId, parsed.stage.id, reason, staffMember);
+
+  if (isTransitionError(result)) {
+    await interaction.editReply(`${result.message}.`);
+    return;
+  }
+
+  const notification = result.discordMessageSent === null
+    ? ''
+    : result.discordMessageSent ? ' The applicant has been notified.' : ' The notification has been queued for delivery.';
+  await interaction.editReply(`Application moved to ${parsed.stage.label}.${notification}`);
+}
+
+export async function handleReviewInteraction(interaction: Interaction): Promise<void> {
+  try {
+    if (interaction.isButton()) {
+      await handleReviewButton(interaction);
+    } else if (interaction.isModalSubmit()) {
+      await handleReviewModal(interaction);
+    }
+  } catch (error) {
+    console.error('Failed to handle review interaction:', error);
+  }
+}
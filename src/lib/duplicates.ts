@@ -0,0 +1,113 @@
+import { getAllFormFields } from './application-types'
+import { applicationConfig } from './config'
+import type { Application, DuplicateMatch } from './storage/types'
+
+const getField = (name: string) => getAllFormFields().find((field) => field.name === name)
+
+// The part of a URL answer that identifies the account, e.g. the username in
+// https://forum.cfx.re/u/username.
+const getUrlIdentifier = (value: string) => {
+  try {
+    return new URL(value).pathname.split('/').filter(Boolean).at(-1) ?? value
+  } catch {
+    return value
+  }
+}
+
+// Lowercased, and reduced to the account name for URL fields, so the same
+// account entered in different ways still matches.
+export function normalizeIdentifier(fieldName: string, value: unknown): string {
+  if (typeof value !== 'string' && typeof value !== 'number') return ''
+  const text = String(value).trim()
+  return (getField(fieldName)?.type === 'url' ? getUrlIdentifier(text) : text).toLowerCase()
+}
+
+// Gmail delivers mail for an address with or without dots in it; most other
+// providers treat them as part of the address.
+const dotInsensitiveDomains = ['gmail.com', 'googlemail.com']
+
+// Ignores letter case and +tags in the local part, and dots for Gmail.
+export function normalizeEmail(email: string | undefined): string {
+  const [local, domain] = (email ?? '').trim().toLowerCase().split('@')
+  if (!local || !domain) return ''
+  const name = local.split('+')[0]
+  return `${dotInsensitiveDomains.includes(domain) ? name.replace(/\./g, '') : name}@${domain}`
+}
+
+// The normalized identifiers of an application, such as `cfxAccount:name`
+// or `email:name@example.com`. Stores index them so that possible
+// duplicates are found without loading every application.
+export function getIdentifierKeys(application: Application): string[] {
+  const keys = applicationConfig.duplicateDetection.identifierFields
+    .map((name) => [name, normalizeIdentifier(name, application[name])])
+    .filter(([, value]) => value !== '')
+    .map(([name, value]) => `${name}:${value}`)
+  const email = normalizeEmail(application.discord.email)
+  return email ? [...keys, `email:${email}`] : keys
+}
+
+// Three-word sequences, or single words for very short texts.
+const getShingles = (text: string) => {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? []
+  if (words.length < 3) return new Set(words)
+  return new Set(words.slice(0, -2).map((word, i) => `${word} ${words[i + 1]} ${words[i + 2]}`))
+}
+
+// Jaccard similarity of the two texts' shingles, from 0 to 1.
+export function getTextSimilarity(a: string, b: string): number {
+  const shinglesA = getShingles(a)
+  const shinglesB = getShingles(b)
+  if (shinglesA.size === 0 || shinglesB.size === 0) return 0
+  const shared = [...shinglesA].filter((shingle) => shinglesB.has(shingle)).length
+  return shared / (shinglesA.size + shinglesB.size - shared)
+}
+
+function getMatchedFields(application: Application, other: Application): string[] {
+  const { identifierFields, textFields, textSimilarity } = applicationConfig.duplicateDetection
+  const matched = identifierFields.filter((name) => {
+    const value = normalizeIdentifier(name, application[name])
+    return value !== '' && value === normalizeIdentifier(name, other[name])
+  })
+
+  const email = normalizeEmail(application.discord.email)
+  if (email && email === normalizeEmail(other.discord.email)) {
+    matched.push('email')
+  }
+
+  textFields.forEach((name) => {
+    const text = application[name]
+    const otherText = other[name]
+    if (typeof text === 'string' && typeof otherText === 'string' && getTextSimilarity(text, otherText) >= textSimilarity) {
+      matched.push(name)
+    }
+  })
+  return matched
+}
+
+export const toDuplicateMatch = (application: Application, matchedOn: string[]): DuplicateMatch => ({
+  applicationId: application.id,
+  discord: { id: application.discord.id, username: application.discord.username },
+  status: application.status ?? 'pending',
+  matchedOn,
+})
+
+// Applications from other Discord accounts that look like they were sent by
+// the same person as `application`, among `candidates`: the applications
+// sharing one of its identifier keys, whose texts are compared as well.
+export function findDuplicates(application: Application, candidates: Application[]): DuplicateMatch[] {
+  return candidates
+    .filter((other) => other.id !== application.id && other.discord.id !== application.discord.id)
+    .map((other) => toDuplicateMatch(other, getMatchedFields(application, other)))
+    .filter((match) => match.matchedOn.length > 0)
+}
+
+// Records the current status of the linked application `linked` on
+// `application`, after `linked` was decided or reopened.
+export const withDuplicateStatus = (application: Application, linked: Application): Application => ({
+  ...application,
+  duplicates: application.duplicates?.map((match) =>
+    match.applicationId === linked.id ? { ...match, status: linked.status ?? 'pending' } : match
+  ),
+})
+
+export const getMatchLabel = (name: string) => (name === 'email' ? 'Email' : getField(name)?.label ?? name)
@@ -0,0 +1,34 @@
+import type { ApplicationTypeConfig, FormCondition, FormFieldConfig, FormSectionConfig } from './config'
+
+const matchesCondition = (condition: FormCondition, answer: unknown) => {
+  const expected: unknown[] = Array.isArray(condition.equals) ? condition.equals : [condition.equals]
+  const given: unknown[] = Array.isArray(answer) ? answer : [answer]
+  return given.some((value) => expected.includes(value))
+}
+
+// The sections of `type` shown for the answers in `values`, each with only
+// its shown fields, in form order. Answers to hidden questions count as
+// unanswered, so anything that depends on them is hidden as well.
+export const getVisibleSections = (type: ApplicationTypeConfig, values: Record<string, unknown>) => {
+  const answers: Record<string, unknown> = {}
+  const isShown = (condition?: FormCondition) => !condition || matchesCondition(condition, answers[condition.field])
+
+  const sections: FormSectionConfig[] = []
+  for (const section of type.sections) {
+    if (!isShown(section.showIf)) continue
+    const fields = section.fields.filter((field) => {
+      if (!isShown(field.showIf)) return false
+      answers[field.name] = values[field.name]
+      return true
+    })
+    sections.push({ ...section, fields })
+  }
+  return sections
+}
+
+export const getVisibleFields = (type: ApplicationTypeConfig, values: Record<string, unknown>) =>
+  getVisibleSections(type, values).flatMap((section) => section.fields)
+
+// Whether a field may be hidden, in which case it is only validated when shown.
+export const isConditionalField = (section: FormSectionConfig, field: FormFieldConfig) =>
+  !!section.showIf || !!field.showIf
@@ -0,0 +1,150 @@
+import * as z from 'zod'
+import { applicationConfig, getApplicationTypeConfig, type FormFieldConfig } from './config'
+import { getVisibleFields, isConditionalField } from './form-conditions'
+
+// Discord usernames are 2-32 lowercase letters, digits, dots and
+// underscores; user IDs are 17-20 digit snowflakes.
+export const discordUserIdPattern = /^\d{17,20}$/
+const discordUsernamePattern = /^[a-z0-9_.]{2,32}$/
+
+const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))
+
+const getFieldSchema = (field: FormFieldConfig, minimumAge: number): z.ZodType => {
+  switch (field.type) {
+    case 'text':
+    case 'textarea': {
+      let fieldSchema = z.string()
+      if (field.minLength) {
+        fieldSchema = fieldSchema.min(field.minLength, field.validationMessage)
+      }
+      if (field.maxLength) {
+        fieldSchema = fieldSchema.max(field.maxLength, field.validationMessage)
+      }
+      if (field.pattern) {
+        fieldSchema = fieldSchema.regex(new RegExp(field.pattern), field.validationMessage)
+      }
+      return fieldSchema
+    }
+    case 'number':
+      return z.number().min(minimumAge, field.validationMessage || applicationConfig.messages.ageRequirement)
+    case 'url':
+      return z.string().url(field.validationMessage)
+    case 'email':
+      return z.string().email(field.validationMessage)
+    case 'discordUser':
+      return z
+        .string()
+        .trim()
+        .transform((value) => value.replace(/^@/, '').toLowerCase())
+        .refine(
+          (value) => discordUserIdPattern.test(value) || discordUsernamePattern.test(value),
+          field.validationMessage || 'Please enter a Discord username or user ID.'
+        )
+    case 'select':
+    case 'radio': {
+      const values = field.options.map((option) => option.value)
+      return z.string().refine((value) => values.includes(value), field.validationMessage || 'Please choose an option.')
+    }
+    case 'multiselect': {
+      const values = field.options.map((option) => option.value)
+      const minSelected = Math.max(field.minSelected ?? 0, field.required ? 1 : 0)
+      let fieldSchema = z
+        .array(z.string().refine((value) => values.includes(value), 'Please choose from the listed options.'))
+        .min(minSelected, field.validationMessage || `Please choose at least ${minSelected}.`)
+      if (field.maxSelected) {
+        fieldSchema = fieldSchema.max(field.maxSelected, field.validationMessage || `Please choose at most ${field.maxSelected}.`)
+      }
+      return fieldSchema
+    }
+    case 'checkbox':
+      return field.required
+        ? z.literal(true, { errorMap: () => ({ message: field.validationMessage || 'This box must be ticked to continue.' }) })
+        : z.boolean()
+    case 'date': {
+      const message = field.validationMessage || 'Please enter a valid date.'
+      return z
+        .string()
+        .refine(isDate, message)
+        .refine((value) => (!field.min || value >= field.min) && (!field.max || value <= field.max), message)
+    }
+  }
+}
+
+// Questions that can be hidden by a condition accept any value at first and
+// are checked once it is known whether they are shown. Answers to hidden
+// questions are dropped from the result.
+export const generateFormSchema = (typeId?: string) => {
+  const schema: Record<string, z.ZodType> = {}
+  const conditionalSchemas = new Map<string, z.ZodType>()
+  const applicationType = getApplicationTypeConfig(typeId)
+
+  applicationType.sections.forEach(section => {
+    section.fields.forEach(field => {
+      let fieldSchema = getFieldSchema(field, applicationType.minimumAge)
+      // Fields left empty are sent as '', which optional fields accept.
+      if (!field.required) {
+        fieldSchema = fieldSchema.or(z.literal('')).optional()
+      }
+
+      if (isConditionalField(section, field)) {
+        conditionalSchemas.set(field.name, fieldSchema)
+        schema[field.name] = z.unknown()
+      } else {
+        schema[field.name] = fieldSchema
+      }
+    })
+  })
+
+  return z
+    .object(schema)
+    .strict()
+    .superRefine((values, ctx) => {
+      getVisibleFields(applicationType, values).forEach((field) => {
+        const result = conditionalSchemas.get(field.name)?.safeParse(values[field.name])
+        result?.error?.issues.forEach((issue) => {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message, path: [field.name, ...issue.path] })
+        })
+      })
+    })
+    .transform((values) => {
+      const answers: Record<string, unknown> = {}
+      getVisibleFields(applicationType, values).forEach((field) => {
+        const conditionalSchema = conditionalSchemas.get(field.name)
+        answers[field.name] = conditionalSchema ? conditionalSchema.parse(values[field.name]) : values[field.name]
+      })
+      return answers
+    })
+}
+
+const formSchemas = new Map<string, ReturnType<typeof generateFormSchema>>()
+
+// Schemas are generated once per application type.
+export const getFormSchema = (typeId?: string) => {
+  const { id } = getApplicationTypeConfig(typeId)
+  let schema = formSchemas.get(id)
+  if (!schema) {
+    schema = generateFormSchema(id)
+    formSchemas.set(id, schema)
+  }
+  return schema
+}
+
+// The values as entered in the form, before hidden answers are dropped.
+export type ApplicationFormValues = z.input<ReturnType<typeof generateFormSchema>>
+
+// Errors returned by POST /api/applications when a submission fails validation.
+export type ApplicationValidationErrors = {
+  fieldErrors: Partial<Record<string, string[]>>
+  formErrors: string[]
+}
+
+// The schema rejects any key that is not a configured field, so a client
+// cannot smuggle extra data (such as a `discord` profile) into the record.
+export const validateSubmission = (typeId: string, values: unknown) => {
+  const result = getFormSchema(typeId).safeParse(values)
+  if (result.success) {
+    return { success: true as const, data: result.data }
+  }
+  const { fieldErrors, formErrors } = result.error.flatten()
+  return { success: false as const, errors: { fieldErrors, formErrors } as ApplicationValidationErrors }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { getServerSession, type Session } from 'next-auth'
+import { canReviewApplication } from './application-types'
+import type { StaffPermission } from './config'
+import { authOptions } from './auth'
+import { hasPermission } from './permissions'
+import { getApplicationStore } from './storage'
+
+type GuardResult =
+  | { session: Session; response: null }
+  | { session: null; response: NextResponse }
+
+// Resolves the session of a staff member holding `permission`, or the
+// 401/403 response the route handler should return as-is.
+export async function requirePermission(permission: StaffPermission): Promise<GuardResult> {
+  const session = await getServerSession(authOptions)
+  if (!session?.discord) {
+    return { session: null, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (!hasPermission(session.staffRole, permission)) {
+    return { session: null, response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  }
+
+  return { session, response: null }
+}
+
+// Like requirePermission, and the staff member must also review the type of
+// application `id` (see `reviewerRoles`). Unknown IDs are let through so the
+// route answers with its usual 404.
+export async function requireApplicationPermission(permission: StaffPermission, id: string): Promise<GuardResult> {
+  const result = await requirePermission(permission)
+  if (result.response) {
+    return result
+  }
+
+  const store = await getApplicationStore()
+  const application = await store.get(id)
+  if (application && !canReviewApplication(result.session.staffRole, application)) {
+    return { session: null, response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  }
+
+  return result
+}
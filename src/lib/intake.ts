@@ -0,0 +1,58 @@
+import * as z from 'zod'
+import type { IntakeSettings } from './config'
+
+export type IntakeClosedReason = 'closed' | 'notYetOpen' | 'ended' | 'full'
+
+export type IntakeStatus =
+  | { open: true; closesAt?: string }
+  | {
+      open: false
+      reason: IntakeClosedReason
+      message: string
+      // Set when a scheduled opening is coming up
+      nextOpening?: string
+    }
+
+// Whether the form accepts applications at `now`, with `pendingCount`
+// applications waiting for review.
+export function getIntakeStatus(settings: IntakeSettings, pendingCount: number, now = new Date()): IntakeStatus {
+  const closed = (reason: IntakeClosedReason, nextOpening?: string): IntakeStatus => ({
+    open: false,
+    reason,
+    message: settings.closedMessage,
+    ...(nextOpening && { nextOpening }),
+  })
+
+  if (settings.mode === 'closed') {
+    return closed('closed')
+  }
+
+  if (settings.mode === 'scheduled') {
+    if (settings.opensAt && Date.parse(settings.opensAt) > now.getTime()) {
+      return closed('notYetOpen', settings.opensAt)
+    }
+    if (settings.closesAt && Date.parse(settings.closesAt) <= now.getTime()) {
+      return closed('ended')
+    }
+  }
+
+  if (settings.maxPending > 0 && pendingCount >= settings.maxPending) {
+    return closed('full')
+  }
+
+  return settings.mode === 'scheduled' && settings.closesAt ? { open: true, closesAt: settings.closesAt } : { open: true }
+}
+
+export const intakeSettingsSchema = z
+  .object({
+    mode: z.enum(['open', 'closed', 'scheduled']),
+    opensAt: z.string().datetime({ message: 'Opening time must be an ISO date' }).optional(),
+    closesAt: z.string().datetime({ message: 'Closing time must be an ISO date' }).optional(),
+    maxPending: z.number().int().min(0).max(100000),
+    closedMessage: z.string().trim().min(1, 'Closed message is required').max(1000),
+  })
+  .strict()
+  .refine(({ opensAt, closesAt }) => !opensAt || !closesAt || Date.parse(opensAt) < Date.parse(closesAt), {
+    message: 'Closing time must be after the opening time',
+    path: ['closesAt'],
+  })
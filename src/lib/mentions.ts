@@ -0,0 +1,6 @@
+// @mentions in staff notes refer to Discord usernames, which consist of
+// lowercase letters, digits, underscores and periods.
+export const mentionPattern = /@([a-z0-9_.]{2,32})/gi
+
+export const parseMentions = (text: string): string[] =>
+  Array.from(new Set(Array.from(text.matchAll(mentionPattern), (match) => match[1].toLowerCase())))
@@ -0,0 +1,110 @@
+import * as z from 'zod'
+import type { MessageTemplate, MessageTemplateType } from './config'
+
+export const templatePlaceholders = [
+  'username',
+  'characterName',
+  'reason',
+  'reviewer',
+  'reapplyDate',
+  'decisionDate',
+  'serverName',
+  'applicationType',
+] as const
+
+export type TemplatePlaceholder = typeof templatePlaceholders[number]
+
+export type TemplateVariables = Partial<Record<TemplatePlaceholder, string>>
+
+export type MessageTemplates = Record<MessageTemplateType, MessageTemplate>
+
+export type RenderedEmbed = {
+  title: string
+  description: string
+  color: string
+  fields: { name: string; value: string; inline: boolean }[]
+  footer: string
+}
+
+const placeholderPattern = /\{(\w+)\}/g
+
+const isPlaceholder = (name: string): name is TemplatePlaceholder =>
+  (templatePlaceholders as readonly string[]).includes(name)
+
+const fillPlaceholders = (text: string, variables: TemplateVariables) =>
+  text.replace(placeholderPattern, (match, name: string) => (isPlaceholder(name) ? variables[name] ?? '' : match))
+
+const truncate = (value: string, length: number) =>
+  value.length > length ? `${value.slice(0, length - 1)}…` : value
+
+// Filled in values such as a long {reason} are cut to Discord's embed limits,
+// which would otherwise reject the whole message.
+export const renderTemplate = (template: MessageTemplate, variables: TemplateVariables): RenderedEmbed => ({
+  title: truncate(fillPlaceholders(template.title, variables), 256),
+  description: truncate(fillPlaceholders(template.description, variables), 4096),
+  color: template.color,
+  fields: template.fields
+    .map((field) => ({
+      name: truncate(fillPlaceholders(field.name, variables).trim(), 256),
+      value: truncate(fillPlaceholders(field.value, variables).trim(), 1024),
+      inline: !!field.inline,
+    }))
+    .filter((field) => field.name && field.value),
+  footer: truncate(fillPlaceholders(template.footer, variables), 2048),
+})
+
+export const findUnknownPlaceholders = (template: MessageTemplate): string[] => {
+  const texts = [
+    template.title,
+    template.description,
+    template.footer,
+    ...template.fields.flatMap((field) => [field.name, field.value]),
+  ]
+  const unknown = texts.flatMap((text) =>
+    Array.from(text.matchAll(placeholderPattern), (match) => match[1]).filter((name) => !isPlaceholder(name))
+  )
+  return Array.from(new Set(unknown))
+}
+
+// Limits follow Discord's embed limits.
+const messageTemplateSchema = z.object({
+  title: z.string().min(1, 'Title is required').max(256),
+  description: z.string().min(1, 'Description is required').max(4096),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex color such as #00FF00'),
+  fields: z.array(z.object({
+    name: z.string().min(1, 'Field name is required').max(256),
+    value: z.string().min(1, 'Field value is required').max(1024),
+    inline: z.boolean().optional(),
+  }).strict()).max(10, 'A template can have at most 10 fields'),
+  footer: z.string().max(2048),
+}).strict()
+
+export const messageTemplatesSchema = z.object({
+  approved: messageTemplateSchema,
+  denied: messageTemplateSchema,
+  banned: messageTemplateSchema,
+  interview: messageTemplateSchema,
+  waitlisted: messageTemplateSchema,
+  reconsidered: messageTemplateSchema,
+}).strict()
+
+// Checks the shape of the templates and rejects any {placeholder} that is
+// not in `templatePlaceholders`. Errors are prefixed with the template type.
+export const validateMessageTemplates = (value: unknown) => {
+  const result = messageTemplatesSchema.safeParse(value)
+  if (!result.success) {
+    return {
+      success: false as const,
+      errors: result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    }
+  }
+
+  const errors = (Object.entries(result.data) as [MessageTemplateType, MessageTemplate][]).flatMap(([type, template]) =>
+    findUnknownPlaceholders(template).map((name) => `${type}: unknown placeholder {${name}}`)
+  )
+  if (errors.length > 0) {
+    return { success: false as const, errors }
+  }
+
+  return { success: true as const, data: result.data as MessageTemplates }
+}
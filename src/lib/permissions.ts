@@ -0,0 +1,46 @@
+import { getTypeFields } from './application-types'
+import { applicationConfig, type StaffPermission, type StaffRole } from './config'
+import type { Application } from './storage/types'
+
+// Highest role first: a user who matches several roles gets the first one.
+const staffRoleOrder: StaffRole[] = ['owner', 'seniorReviewer', 'reviewer', 'viewer']
+
+export const getStaffRole = (
+  discordId: string | undefined,
+  guildRoleIds: string[] = []
+): StaffRole | null => {
+  if (!discordId) {
+    return null
+  }
+
+  return staffRoleOrder.find((role) => {
+    const { discordUserIds, guildRoleIds: roleIds } = applicationConfig.staffRoles[role]
+    return discordUserIds.includes(discordId) || roleIds.some((roleId) => guildRoleIds.includes(roleId))
+  }) ?? null
+}
+
+export const hasPermission = (role: StaffRole | null | undefined, permission: StaffPermission): boolean => {
+  return !!role && applicationConfig.staffRoles[role].permissions.includes(permission)
+}
+
+export const getStaffRoleLabel = (role: StaffRole) => applicationConfig.staffRoles[role].label
+
+// Redacted in every application when any type marks the field as `pii`.
+const piiFieldNames = applicationConfig.applicationTypes
+  .flatMap(getTypeFields)
+  .filter((field) => field.pii)
+  .map((field) => field.name)
+
+// Strips the answers marked as `pii`, the applicant's email and the values
+// that matched the blacklist for staff without the viewPii permission.
+export const redactApplication = (application: Application): Application => {
+  const redacted: Application = {
+    ...application,
+    discord: { ...application.discord, email: '' },
+    blacklistMatches: application.blacklistMatches?.map((match) => ({ ...match, value: undefined })),
+  }
+  piiFieldNames.forEach((name) => {
+    delete redacted[name]
+  })
+  return redacted
+}
@@ -0,0 +1,81 @@
+import { getApplicationType } from './application-types'
+import { applicationConfig, getApplicationTypeConfig } from './config'
+import type { Application } from './storage/types'
+
+const dayMs = 24 * 60 * 60 * 1000
+
+export const findDenialReason = (label: string | undefined) =>
+  label ? applicationConfig.cannedReasons.denied.find((reason) => reason.label === label) : undefined
+
+// What is recorded on an application denied at `deniedAt` with the canned
+// reason labelled `cannedReason`, or with a custom reason when it is unset.
+export function getDenialRestriction(
+  cannedReason: string | undefined,
+  deniedAt = new Date()
+): Pick<Application, 'reapplyAfter' | 'permanentBan'> {
+  const reason = findDenialReason(cannedReason)
+  if (reason?.permanentBan) {
+    return { permanentBan: true }
+  }
+  const cooldownDays = reason?.cooldownDays ?? applicationConfig.reapplyCooldownDays
+  return { reapplyAfter: new Date(deniedAt.getTime() + cooldownDays * dayMs).toISOString() }
+}
+
+export type ApplyEligibility =
+  | { allowed: true }
+  | {
+      allowed: false
+      reason: 'pending' | 'cooldown' | 'banned'
+      message: string
+      // Set for 'cooldown'
+      reapplyAfter?: string
+    }
+
+const isPending = (application: Application) => !application.status || application.status === 'pending'
+
+// Whether someone with these applications, pending and archived, may submit
+// a new one of the application type `typeId` at `now`. The pending limit and
+// cooldowns apply per type; a permanent ban applies to every type.
+export function getApplyEligibility(applications: Application[], typeId?: string, now = new Date()): ApplyEligibility {
+  const type = getApplicationTypeConfig(typeId)
+  const ofType = applications.filter((application) => getApplicationType(application) === type)
+  if (applicationConfig.onePendingApplication && ofType.some(isPending)) {
+    return {
+      allowed: false,
+      reason: 'pending',
+      message: 'You already have an application waiting for review.',
+    }
+  }
+
+  if (applications.some((application) => application.status === 'denied' && application.permanentBan)) {
+    return {
+      allowed: false,
+      reason: 'banned',
+      message: 'You are not able to apply again.',
+    }
+  }
+
+  // Applications denied before reapplyAfter was recorded use the default cooldown.
+  const reapplyAfter = ofType
+    .filter((application) => application.status === 'denied')
+    .map((application) => application.reapplyAfter ?? getDenialRestriction(undefined, new Date(application.updatedAt ?? application.timestamp)).reapplyAfter)
+    .filter((date): date is string => !!date && Date.parse(date) > now.getTime())
+    .sort()
+    .at(-1)
+  if (reapplyAfter) {
+    return {
+      allowed: false,
+      reason: 'cooldown',
+      message: `You can apply again on ${new Date(reapplyAfter).toLocaleDateString()}.`,
+      reapplyAfter,
+    }
+  }
+
+  return { allowed: true }
+}
+
+// Eligibility for every application type, keyed by type ID.
+export const getApplyEligibilityByType = (applications: Application[], now = new Date()): Record<string, ApplyEligibility> =>
+  Object.fromEntries(
+    applicationConfig.applicationTypes.map((type) => [type.id, getApplyEligibility(applications, type.id, now)])
+  )
@@ -0,0 +1,32 @@
+import { applicationConfig, type ReviewStageConfig } from './config'
+import type { Application } from './storage/types'
+
+export const getReviewStages = () => applicationConfig.reviewStages
+
+export const getStage = (id: string): ReviewStageConfig | undefined =>
+  applicationConfig.reviewStages.find((stage) => stage.id === id)
+
+export const getInitialStage = (): ReviewStageConfig => applicationConfig.reviewStages[0]
+
+// Applications stored before the pipeline existed have no `stage`; they are
+// placed in the initial stage, or the first stage with their outcome.
+export function getApplicationStage(application: Pick<Application, 'stage' | 'status'>): ReviewStageConfig {
+  const stage = application.stage ? getStage(application.stage) : undefined
+  if (stage) {
+    return stage
+  }
+
+  const outcome = application.status === 'approved' || application.status === 'denied' ? application.status : undefined
+  return (outcome && applicationConfig.reviewStages.find((candidate) => candidate.outcome === outcome)) || getInitialStage()
+}
+
+export const getTransition = (from: ReviewStageConfig, to: string) =>
+  from.transitions.find((transition) => transition.to === to)
+
+// Stages an application in `from` may move to, in the configured order.
+export const getNextStages = (from: ReviewStageConfig): ReviewStageConfig[] =>
+  from.transitions.flatMap((transition) => getStage(transition.to) ?? [])
+
+// The stage a plain approve/deny moves an application in `from` to, if allowed.
+export const getOutcomeStage = (from: ReviewStageConfig, outcome: 'approved' | 'denied') =>
+  getNextStages(from).find((stage) => stage.outcome === outcome)
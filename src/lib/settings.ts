@@ -0,0 +1,43 @@
+import { isDefaultApplicationType } from './application-types'
+import { applicationConfig, getApplicationTypeConfig, type ApplicationTypeConfig, type IntakeSettings } from './config'
+import type { MessageTemplates } from './message-templates'
+import { getSettingsStore } from './storage'
+
+// The first application type keeps the key used before there were several.
+const getMessageTemplatesKey = (type: ApplicationTypeConfig) =>
+  isDefaultApplicationType(type) ? 'messageTemplates' : `messageTemplates.${type.id}`
+
+// The templates a type starts from: applicationConfig.messageTemplates with
+// the type's own messageTemplates on top.
+export const getDefaultMessageTemplates = (typeId?: string): MessageTemplates => ({
+  ...applicationConfig.messageTemplates,
+  ...getApplicationTypeConfig(typeId).messageTemplates,
+})
+
+// Templates saved from the admin panel for the application type, falling
+// back to its defaults.
+export async function getMessageTemplates(typeId?: string): Promise<MessageTemplates> {
+  const settings = await getSettingsStore()
+  const saved = await settings.get<Partial<MessageTemplates>>(getMessageTemplatesKey(getApplicationTypeConfig(typeId)))
+  return { ...getDefaultMessageTemplates(typeId), ...saved }
+}
+
+export async function saveMessageTemplates(templates: MessageTemplates, typeId?: string): Promise<void> {
+  const settings = await getSettingsStore()
+  await settings.set(getMessageTemplatesKey(getApplicationTypeConfig(typeId)), templates)
+}
+
+const intakeSettingsKey = 'intake'
+
+// Intake settings saved from the admin panel, or applicationConfig.intake
+// until they are first saved. Saved settings replace the defaults as a whole
+// so that clearing a date in the admin panel sticks.
+export async function getIntakeSettings(): Promise<IntakeSettings> {
+  const settings = await getSettingsStore()
+  return (await settings.get<IntakeSettings>(intakeSettingsKey)) ?? applicationConfig.intake
+}
+
+export async function saveIntakeSettings(intake: IntakeSettings): Promise<void> {
+  const settings = await getSettingsStore()
+  await settings.set(intakeSettingsKey, intake)
+}
@@ -0,0 +1,69 @@
+import { randomUUID } from 'crypto'
+import { parseMentions } from './mentions'
+import { getApplicationStore, type Application, type ApplicationStore, type StaffMember, type StaffNote } from './storage'
+
+export const maxNoteLength = 2000
+
+// The trimmed note text, or null when it is empty or too long.
+export const parseNoteBody = (value: unknown) =>
+  typeof value === 'string' && value.trim() && value.trim().length <= maxNoteLength ? value.trim() : null
+
+// Notes can be added to pending and archived applications alike.
+async function updateApplication(store: ApplicationStore, id: string, update: (application: Application) => Application) {
+  return (await store.updatePending(id, update)) ?? (await store.updateArchived(id, update))
+}
+
+export async function addNote(applicationId: string, author: StaffMember, body: string): Promise<StaffNote | null> {
+  const store = await getApplicationStore()
+  const note: StaffNote = {
+    id: randomUUID(),
+    author,
+    body,
+    mentions: parseMentions(body),
+    createdAt: new Date().toISOString(),
+  }
+
+  const application = await updateApplication(store, applicationId, (current) => ({
+    ...current,
+    notes: [...(current.notes ?? []), note],
+  }))
+  return application ? note : null
+}
+
+export type EditNoteResult = { note: StaffNote } | { error: 'notFound' | 'forbidden' }
+
+// Replaces the body of a note, keeping the previous one in `edits`. Only the
+// author can edit their note.
+export async function editNote(
+  applicationId: string,
+  noteId: string,
+  editor: StaffMember,
+  body: string
+): Promise<EditNoteResult> {
+  const store = await getApplicationStore()
+  let result: EditNoteResult = { error: 'notFound' }
+
+  await updateApplication(store, applicationId, (current) => {
+    const note = current.notes?.find((candidate) => candidate.id === noteId)
+    if (!note) {
+      return current
+    }
+    if (note.author.id !== editor.id) {
+      result = { error: 'forbidden' }
+      return current
+    }
+
+    const now = new Date().toISOString()
+    const edited: StaffNote = {
+      ...note,
+      body,
+      mentions: parseMentions(body),
+      updatedAt: now,
+      edits: [...(note.edits ?? []), { body: note.body, editedAt: now }],
+    }
+    result = { note: edited }
+    return { ...current, notes: current.notes?.map((candidate) => (candidate.id === noteId ? edited : candidate)) }
+  })
+
+  return result
+}
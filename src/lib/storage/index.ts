@@ -0,0 +1,107 @@
+import path from 'path'
+import type { ApplicationStore, BlacklistStore, OutboxStore, SettingsStore } from './types'
+
+export type {
+  Application,
+  ApplicationClaim,
+  ApplicationStatus,
+  ApplicationStore,
+  BlacklistAction,
+  BlacklistEntry,
+  BlacklistEntryType,
+  BlacklistMatch,
+  BlacklistStore,
+  CreateCheck,
+  CreateContext,
+  DecisionNotification,
+  DecisionRecord,
+  DiscordUser,
+  DuplicateMatch,
+  NotificationDelivery,
+  OutboxMessage,
+  OutboxMessageState,
+  OutboxStore,
+  ReviewMessage,
+  RoleAssignment,
+  SettingsStore,
+  StaffMember,
+  StaffNote,
+  StageTransition,
+  Vote,
+} from './types'
+
+const dataDir = path.join(process.cwd(), 'data')
+
+// APPLICATION_STORE selects the backend: 'json' (default) keeps the data in
+// data/*.json, 'sqlite' uses a database at SQLITE_DATABASE_PATH.
+const isSqliteBackend = () => process.env.APPLICATION_STORE === 'sqlite'
+
+async function openSqliteDatabase() {
+  const { openDatabase } = await import('./sqlite-database')
+  return openDatabase(process.env.SQLITE_DATABASE_PATH || path.join(dataDir, 'applications.db'))
+}
+
+// Creates a store on first use and shares it afterwards. A store that failed
+// to open, for example on a failed import, is tried again on the next call.
+function shared<T>(create: () => Promise<T>): () => Promise<T> {
+  let promise: Promise<T> | null = null
+  return () => {
+    if (!promise) {
+      promise = create().catch((error) => {
+        promise = null
+        throw error
+      })
+    }
+    return promise
+  }
+}
+
+async function createApplicationStore(): Promise<ApplicationStore> {
+  if (isSqliteBackend()) {
+    const { createSqliteStore } = await import('./sqlite-store')
+    return createSqliteStore(await openSqliteDatabase(), dataDir)
+  }
+
+  const { createJsonStore } = await import('./json-store')
+  return createJsonStore(dataDir)
+}
+
+async function createOutboxStore(): Promise<OutboxStore> {
+  if (isSqliteBackend()) {
+    const { createSqliteOutbox } = await import('./sqlite-outbox')
+    return createSqliteOutbox(await openSqliteDatabase(), dataDir)
+  }
+
+  const { createJsonOutbox } = await import('./json-outbox')
+  return createJsonOutbox(dataDir)
+}
+
+async function createSettingsStore(): Promise<SettingsStore> {
+  if (isSqliteBackend()) {
+    const { createSqliteSettings } = await import('./sqlite-settings')
+    return createSqliteSettings(await openSqliteDatabase(), dataDir)
+  }
+
+  const { createJsonSettings } = await import('./json-settings')
+  return createJsonSettings(dataDir)
+}
+
+async function createBlacklistStore(): Promise<BlacklistStore> {
+  if (isSqliteBackend()) {
+    const { createSqliteBlacklist } = await import('./sqlite-blacklist')
+    return createSqliteBlacklist(await openSqliteDatabase(), dataDir)
+  }
+
+  const { createJsonBlacklist } = await import('./json-blacklist')
+  return createJsonBlacklist(dataDir)
+}
+
+export const getApplicationStore = shared(createApplicationStore)
+
+// Discord notifications waiting to be delivered, stored with the same
+// backend as the applications.
+export const getOutboxStore = shared(createOutboxStore)
+
+export const getSettingsStore = shared(createSettingsStore)
+
+export const getBlacklistStore = shared(createBlacklistStore)
@@ -0,0 +1,35 @@
+import path from 'path'
+import { readJsonFile, withFileLock, writeJsonFileAtomic } from './json-file'
+import type { BlacklistEntry, BlacklistStore } from './types'
+
+export function createJsonBlacklist(dataDir: string): BlacklistStore {
+  const blacklistFilePath = path.join(dataDir, 'blacklist.json')
+  const readEntries = () => readJsonFile<BlacklistEntry[]>(blacklistFilePath, [])
+
+  return {
+    async list() {
+      const entries = await readEntries()
+      return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    },
+
+    add(newEntries) {
+      return withFileLock(blacklistFilePath, async () => {
+        const entries = await readEntries()
+        await writeJsonFileAtomic(blacklistFilePath, [...entries, ...newEntries])
+      })
+    },
+
+    remove(id) {
+      return withFileLock(blacklistFilePath, async () => {
+        const entries = await readEntries()
+        const remaining = entries.filter((entry) => entry.id !== id)
+        if (remaining.length === entries.length) {
+          return false
+        }
+
+        await writeJsonFileAtomic(blacklistFilePath, remaining)
+        return true
+      })
+    },
+  }
+}
@@ -0,0 +1,55 @@
+import { randomUUID } from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+
+const locks = new Map<string, Promise<unknown>>()
+
+// Runs `task` once every task queued earlier for the same file has settled.
+// This only serialises writers inside this process; the JSON backend is not
+// meant to be shared between several server processes.
+export function withFileLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const previous = locks.get(filePath) ?? Promise.resolve()
+  const result = previous.then(task)
+  const tail = result.catch(() => undefined)
+  locks.set(filePath, tail)
+  tail.then(() => {
+    if (locks.get(filePath) === tail) {
+      locks.delete(filePath)
+    }
+  })
+  return result
+}
+
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    const data = await fs.readFile(filePath, 'utf8')
+    return JSON.parse(data)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback
+    }
+    throw error
+  }
+}
+
+// Writes to a temporary file next to the target and renames it into place,
+// so readers only ever see the old or the new contents.
+export async function writeJsonFileAtomic(filePath: string, value: unknown) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+
+  const tempPath = `${filePath}.${randomUUID()}.tmp`
+  const handle = await fs.open(tempPath, 'w')
+  try {
+    await handle.writeFile(JSON.stringify(value, null, 2))
+    await handle.sync()
+  } finally {
+    await handle.close()
+  }
+
+  try {
+    await fs.rename(tempPath, filePath)
+  } catch (error) {
+    await fs.rm(tempPath, { force: true })
+    throw error
+  }
+}
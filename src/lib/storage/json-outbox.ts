@@ -0,0 +1,51 @@
+import path from 'path'
+import { readJsonFile, withFileLock, writeJsonFileAtomic } from './json-file'
+import type { OutboxMessage, OutboxStore } from './types'
+
+const isDue = (message: OutboxMessage, now: Date) =>
+  (message.state === 'pending' || message.state === 'failed') && new Date(message.nextAttemptAt) <= now
+
+export function createJsonOutbox(dataDir: string): OutboxStore {
+  const outboxFilePath = path.join(dataDir, 'outbox.json')
+  const readMessages = () => readJsonFile<OutboxMessage[]>(outboxFilePath, [])
+
+  return {
+    enqueue(message) {
+      return withFileLock(outboxFilePath, async () => {
+        const messages = await readMessages()
+        messages.push(message)
+        await writeJsonFileAtomic(outboxFilePath, messages)
+        return message
+      })
+    },
+
+    async get(id) {
+      const messages = await readMessages()
+      return messages.find((message) => message.id === id) ?? null
+    },
+
+    async list(states) {
+      const messages = await readMessages()
+      return messages.filter((message) => states.includes(message.state))
+    },
+
+    async listDue(now) {
+      const messages = await readMessages()
+      return messages.filter((message) => isDue(message, now))
+    },
+
+    update(id, update) {
+      return withFileLock(outboxFilePath, async () => {
+        const messages = await readMessages()
+        const index = messages.findIndex((message) => message.id === id)
+        if (index === -1) {
+          return null
+        }
+
+        messages[index] = update(messages[index])
+        await writeJsonFileAtomic(outboxFilePath, messages)
+        return messages[index]
+      })
+    },
+  }
+}
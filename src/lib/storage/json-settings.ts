@@ -0,0 +1,22 @@
+import path from 'path'
+import { readJsonFile, withFileLock, writeJsonFileAtomic } from './json-file'
+import type { SettingsStore } from './types'
+
+export function createJsonSettings(dataDir: string): SettingsStore {
+  const settingsFilePath = path.join(dataDir, 'settings.json')
+  const readSettings = () => readJsonFile<Record<string, unknown>>(settingsFilePath, {})
+
+  return {
+    async get<T>(key: string) {
+      const settings = await readSettings()
+      return settings[key] as T | undefined
+    },
+
+    set(key, value) {
+      return withFileLock(settingsFilePath, async () => {
+        const settings = await readSettings()
+        await writeJsonFileAtomic(settingsFilePath, { ...settings, [key]: value })
+      })
+    },
+  }
+}
@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { createJsonStore } from './json-store'
+import type { Application, ApplicationStore, CreateCheck } from './types'
+
+const createApplication = (id: string, discordId = `user-${id}`): Application => ({
+  id,
+  timestamp: new Date().toISOString(),
+  discord: { id: discordId, username: discordId },
+  status: 'pending',
+}) as Application
+
+const ids = (applications: Application[]) => applications.map((app) => app.id).sort()
+
+const range = (count: number, prefix = 'app') => Array.from({ length: count }, (_, i) => `${prefix}-${i}`)
+
+describe('JSON application store under concurrent writes', () => {
+  let dataDir: string
+  let store: ApplicationStore
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'json-store-'))
+    store = createJsonStore(dataDir)
+  })
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('keeps every application created at the same time', async () => {
+    const created = range(50)
+    await Promise.all(created.map((id) => store.create(createApplication(id))))
+
+    assert.deepEqual(ids(await store.listPending()), created.sort())
+  })
+
+  it('keeps new submissions while others are being archived', async () => {
+    const existing = range(20, 'old')
+    for (const id of existing) {
+      await store.create(createApplication(id))
+    }
+
+    const submitted = range(20, 'new')
+    await Promise.all([
+      ...existing.map((id) => store.archive(id, (app) => ({ ...app, status: 'approved' }))),
+      ...submitted.map((id) => store.create(createApplication(id))),
+    ])
+
+    assert.deepEqual(ids(await store.listPending()), submitted.sort())
+    const archived = await store.listArchived()
+    assert.deepEqual(ids(archived), existing.sort())
+    assert.ok(archived.every((app) => app.status === 'approved'))
+  })
+
+  it('lets only one of simultaneous submissions by the same user pass the create check', async () => {
+    const onePending: CreateCheck = ({ ownApplications }) => {
+      if (ownApplications.some((app) => app.status === 'pending')) {
+        throw new Error('Already pending')
+      }
+    }
+    const submissions = range(10, 'same-user').map((id) => createApplication(id, 'user-1'))
+
+    const results = await Promise.allSettled(submissions.map((application) => store.create(application, onePending)))
+
+    assert.equal(results.filter((result) => result.status === 'fulfilled').length, 1)
+    assert.equal((await store.listPending()).length, 1)
+    assert.equal(await store.countPending(), 1)
+  })
+
+  it('finds pending and archived applications by identifier key', async () => {
+    await store.create({ ...createApplication('pending'), steamId: 'STEAM_0:1:42' })
+    await store.create({ ...createApplication('archived'), cfxAccount: 'https://forum.cfx.re/u/Someone' })
+    await store.create({ ...createApplication('unrelated'), steamId: 'STEAM_0:1:7' })
+    await store.archive('archived', (app) => ({ ...app, status: 'denied' }))
+
+    const found = await store.listByIdentifiers(['steamId:steam_0:1:42', 'cfxAccount:someone'])
+
+    assert.deepEqual(ids(found), ['archived', 'pending'])
+  })
+
+  it('archives an application only once when decided twice at the same time', async () => {
+    await store.create(createApplication('contested'))
+
+    const results = await Promise.all([
+      store.archive('contested', (app) => ({ ...app, status: 'approved' })),
+      store.archive('contested', (app) => ({ ...app, status: 'denied' })),
+    ])
+
+    assert.equal(results.filter(Boolean).length, 1)
+    assert.deepEqual(ids(await store.listArchived()), ['contested'])
+    assert.deepEqual(await store.listPending(), [])
+  })
+
+  it('keeps every application in exactly one list while archiving and unarchiving', async () => {
+    const toArchive = range(15, 'pending')
+    const toUnarchive = range(15, 'archived')
+    for (const id of [...toArchive, ...toUnarchive]) {
+      await store.create(createApplication(id))
+    }
+    for (const id of toUnarchive) {
+      await store.archive(id, (app) => ({ ...app, status: 'denied' }))
+    }
+
+    await Promise.all([
+      ...toArchive.map((id) => store.archive(id, (app) => ({ ...app, status: 'approved' }))),
+      ...toUnarchive.map((id) => store.unarchive(id, (app) => ({ ...app, status: 'pending' }))),
+      ...toUnarchive.map((id) => store.updatePending(id, (app) => ({ ...app, updatedAt: new Date().toISOString() }))),
+    ])
+
+    const [pending, archived] = await Promise.all([store.listPending(), store.listArchived()])
+    assert.deepEqual(ids(pending), toUnarchive.sort())
+    assert.deepEqual(ids(archived), toArchive.sort())
+  })
+})
@@ -0,0 +1,173 @@
+import path from 'path'
+import { getIdentifierKeys } from '../duplicates'
+import { readJsonFile, withFileLock, writeJsonFileAtomic } from './json-file'
+import type { Application, ApplicationStore } from './types'
+
+const readApplications = (filePath: string) => readJsonFile<Application[]>(filePath, [])
+
+export function createJsonStore(dataDir: string): ApplicationStore {
+  const pendingFilePath = path.join(dataDir, 'applications.json')
+  const archiveFilePath = path.join(dataDir, 'archived_applications.json')
+
+  // Every operation touching both files takes the pending lock first, then
+  // the archive lock, so two of them can never wait on each other.
+  const withBothLocks = <T>(task: () => Promise<T>) =>
+    withFileLock(pendingFilePath, () => withFileLock(archiveFilePath, task))
+
+  // A crash between the two renames of `archive` or `unarchive` leaves the
+  // application in both files. The archived copy wins: `archive` writes the
+  // archive first, and an interrupted `unarchive` simply did not happen.
+  const recovered = withBothLocks(async () => {
+    const [applications, archivedApplications] = await Promise.all([
+      readApplications(pendingFilePath),
+      readApplications(archiveFilePath),
+    ])
+    const archivedIds = new Set(archivedApplications.map((app) => app.id))
+    const remaining = applications.filter((app) => !archivedIds.has(app.id))
+    if (remaining.length !== applications.length) {
+      console.warn(`Removing ${applications.length - remaining.length} already archived application(s) from the pending list`)
+      await writeJsonFileAtomic(pendingFilePath, remaining)
+    }
+  })
+
+  return {
+    async listPending() {
+      await recovered
+      return readApplications(pendingFilePath)
+    },
+
+    listArchived: () => readApplications(archiveFilePath),
+
+    async countPending() {
+      await recovered
+      return withFileLock(pendingFilePath, async () => (await readApplications(pendingFilePath)).length)
+    },
+
+    async get(id) {
+      await recovered
+      const applications = await readApplications(pendingFilePath)
+      const application = applications.find((app) => app.id === id)
+      if (application) {
+        return application
+      }
+      const archivedApplications = await readApplications(archiveFilePath)
+      return archivedApplications.find((app) => app.id === id) ?? null
+    },
+
+    async listByDiscordId(discordId) {
+      await recovered
+      const [applications, archivedApplications] = await Promise.all([
+        readApplications(pendingFilePath),
+        readApplications(archiveFilePath),
+      ])
+      return [...applications, ...archivedApplications].filter((app) => app.discord.id === discordId)
+    },
+
+    async listByIdentifiers(keys) {
+      await recovered
+      const [applications, archivedApplications] = await Promise.all([
+        readApplications(pendingFilePath),
+        readApplications(archiveFilePath),
+      ])
+      return [...applications, ...archivedApplications].filter((app) =>
+        getIdentifierKeys(app).some((key) => keys.includes(key))
+      )
+    },
+
+    async create(application, check) {
+      await recovered
+      return withBothLocks(async () => {
+        const applications = await readApplications(pendingFilePath)
+        if (check) {
+          const archivedApplications = await readApplications(archiveFilePath)
+          check({
+            pendingCount: applications.length,
+            ownApplications: [...applications, ...archivedApplications].filter(
+              (app) => app.discord.id === application.discord.id
+            ),
+          })
+        }
+        applications.push(application)
+        await writeJsonFileAtomic(pendingFilePath, applications)
+        return application
+      })
+    },
+
+    async archive(id, update) {
+      await recovered
+      return withBothLocks(async () => {
+        const applications = await readApplications(pendingFilePath)
+        const index = applications.findIndex((app) => app.id === id)
+        if (index === -1) {
+          return null
+        }
+
+        const archivedApplications = await readApplications(archiveFilePath)
+        const archived = update(applications[index])
+
+        await writeJsonFileAtomic(archiveFilePath, [...archivedApplications, archived])
+        try {
+          await writeJsonFileAtomic(pendingFilePath, applications.filter((app) => app.id !== id))
+        } catch (error) {
+          await writeJsonFileAtomic(archiveFilePath, archivedApplications)
+          throw error
+        }
+
+        return archived
+      })
+    },
+
+    async unarchive(id, update) {
+      await recovered
+      return withBothLocks(async () => {
+        const archivedApplications = await readApplications(archiveFilePath)
+        const index = archivedApplications.findIndex((app) => app.id === id)
+        if (index === -1) {
+          return null
+        }
+
+        const applications = await readApplications(pendingFilePath)
+        const restored = update(archivedApplications[index])
+
+        await writeJsonFileAtomic(pendingFilePath, [...applications, restored])
+        try {
+          await writeJsonFileAtomic(archiveFilePath, archivedApplications.filter((app) => app.id !== id))
+        } catch (error) {
+          await writeJsonFileAtomic(pendingFilePath, applications)
+          throw error
+        }
+
+        return restored
+      })
+    },
+
+    async updatePending(id, update) {
+      await recovered
+      return withFileLock(pendingFilePath, async () => {
+        const applications = await readApplications(pendingFilePath)
+        const index = applications.findIndex((app) => app.id === id)
+        if (index === -1) {
+          return null
+        }
+
+        applications[index] = update(applications[index])
+        await writeJsonFileAtomic(pendingFilePath, applications)
+        return applications[index]
+      })
+    },
+
+    updateArchived(id, update) {
+      return withFileLock(archiveFilePath, async () => {
+        const archivedApplications = await readApplications(archiveFilePath)
+        const index = archivedApplications.findIndex((app) => app.id === id)
+        if (index === -1) {
+          return null
+        }
+
+        archivedApplications[index] = update(archivedApplications[index])
+        await writeJsonFileAtomic(archiveFilePath, archivedApplications)
+        return archivedApplications[index]
+      })
+    },
+  }
+}
@@ -0,0 +1,59 @@
+import path from 'path'
+import type Database from 'better-sqlite3'
+import { readJsonFileToImport } from './sqlite-database'
+import type { BlacklistEntry, BlacklistStore } from './types'
+
+type BlacklistRow = { data: string }
+
+const schema = `
+  CREATE TABLE IF NOT EXISTS blacklist (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    value TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_blacklist_value ON blacklist (type, value);
+`
+
+export function createSqliteBlacklist(db: Database.Database, dataDir: string): BlacklistStore {
+  db.exec(schema)
+
+  const insert = db.prepare(`
+    INSERT INTO blacklist (id, type, value, created_at, data)
+    VALUES (@id, @type, @value, @created_at, @data)
+  `)
+  const selectAll = db.prepare<[], BlacklistRow>('SELECT data FROM blacklist ORDER BY created_at DESC')
+  const deleteById = db.prepare('DELETE FROM blacklist WHERE id = ?')
+
+  const insertAll = db.transaction((entries: BlacklistEntry[]) => {
+    for (const entry of entries) {
+      insert.run({
+        id: entry.id,
+        type: entry.type,
+        value: entry.value,
+        created_at: entry.createdAt,
+        data: JSON.stringify(entry),
+      })
+    }
+  })
+
+  // Carry over the entries of an existing JSON-file install the first time
+  // the table is created.
+  const { count } = db.prepare('SELECT COUNT(*) AS count FROM blacklist').get() as { count: number }
+  if (count === 0) {
+    insertAll(readJsonFileToImport<BlacklistEntry[]>(path.join(dataDir, 'blacklist.json'), []))
+  }
+
+  return {
+    list: async () => selectAll.all().map((row) => JSON.parse(row.data) as BlacklistEntry),
+
+    async add(entries) {
+      insertAll(entries)
+    },
+
+    async remove(id) {
+      return deleteById.run(id).changes > 0
+    },
+  }
+}
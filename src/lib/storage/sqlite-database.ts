@@ -0,0 +1,32 @@
+import fs from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+
+const databases = new Map<string, Database.Database>()
+
+// Every SQLite-backed store shares one connection per database file.
+export function openDatabase(databasePath: string): Database.Database {
+  let db = databases.get(databasePath)
+  if (!db) {
+    fs.mkdirSync(path.dirname(databasePath), { recursive: true })
+    db = new Database(databasePath)
+    db.pragma('journal_mode = WAL')
+    databases.set(databasePath, db)
+  }
+  return db
+}
+
+// Reads a data file of the JSON backend, to carry its records over the first
+// time a table is created. A missing file has nothing to import. Anything
+// else, such as a corrupt file, fails the import so it is tried again on the
+// next start.
+export function readJsonFileToImport<T>(filePath: string, empty: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return empty
+    }
+    throw error
+  }
+}
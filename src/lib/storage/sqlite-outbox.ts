@@ -0,0 +1,99 @@
+import path from 'path'
+import type Database from 'better-sqlite3'
+import { readJsonFileToImport } from './sqlite-database'
+import type { OutboxMessage, OutboxMessageState, OutboxStore } from './types'
+
+type OutboxRow = { data: string }
+
+const schema = `
+  CREATE TABLE IF NOT EXISTS outbox (
+    id TEXT PRIMARY KEY,
+    application_id TEXT,
+    state TEXT NOT NULL,
+    next_attempt_at TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_outbox_state ON outbox (state, next_attempt_at);
+`
+
+function toRow(message: OutboxMessage) {
+  return {
+    id: message.id,
+    application_id: message.applicationId ?? null,
+    state: message.state,
+    next_attempt_at: message.nextAttemptAt,
+    created_at: message.createdAt,
+    data: JSON.stringify(message),
+  }
+}
+
+const parseRows = (rows: OutboxRow[]) => rows.map((row) => JSON.parse(row.data) as OutboxMessage)
+
+export function createSqliteOutbox(db: Database.Database, dataDir: string): OutboxStore {
+  db.exec(schema)
+
+  const insert = db.prepare(`
+    INSERT INTO outbox (id, application_id, state, next_attempt_at, created_at, data)
+    VALUES (@id, @application_id, @state, @next_attempt_at, @created_at, @data)
+  `)
+  const update = db.prepare(`
+    UPDATE outbox
+    SET application_id = @application_id, state = @state, next_attempt_at = @next_attempt_at,
+        created_at = @created_at, data = @data
+    WHERE id = @id
+  `)
+  const selectById = db.prepare<[string], OutboxRow>('SELECT data FROM outbox WHERE id = ?')
+  const selectDue = db.prepare<[string], OutboxRow>(`
+    SELECT data FROM outbox
+    WHERE state IN ('pending', 'failed') AND next_attempt_at <= ?
+    ORDER BY next_attempt_at
+  `)
+
+  // Carry over the queued messages of an existing JSON-file install the
+  // first time the table is created.
+  const { count } = db.prepare('SELECT COUNT(*) AS count FROM outbox').get() as { count: number }
+  if (count === 0) {
+    db.transaction(() => {
+      for (const message of readJsonFileToImport<OutboxMessage[]>(path.join(dataDir, 'outbox.json'), [])) {
+        insert.run(toRow(message))
+      }
+    })()
+  }
+
+  const updateTransaction = db.transaction((id: string, updater: (message: OutboxMessage) => OutboxMessage) => {
+    const row = selectById.get(id)
+    if (!row) {
+      return null
+    }
+    const updated = updater(JSON.parse(row.data))
+    update.run(toRow(updated))
+    return updated
+  })
+
+  return {
+    async enqueue(message) {
+      insert.run(toRow(message))
+      return message
+    },
+
+    async get(id) {
+      const row = selectById.get(id)
+      return row ? JSON.parse(row.data) : null
+    },
+
+    async list(states: OutboxMessageState[]) {
+      const placeholders = states.map(() => '?').join(', ')
+      const rows = db
+        .prepare<string[], OutboxRow>(`SELECT data FROM outbox WHERE state IN (${placeholders}) ORDER BY created_at`)
+        .all(...states)
+      return parseRows(rows)
+    },
+
+    listDue: async (now) => parseRows(selectDue.all(now.toISOString())),
+
+    async update(id, updater) {
+      return updateTransaction(id, updater)
+    },
+  }
+}
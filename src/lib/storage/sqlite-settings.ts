@@ -0,0 +1,44 @@
+import path from 'path'
+import type Database from 'better-sqlite3'
+import { readJsonFileToImport } from './sqlite-database'
+import type { SettingsStore } from './types'
+
+const schema = `
+  CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`
+
+export function createSqliteSettings(db: Database.Database, dataDir: string): SettingsStore {
+  db.exec(schema)
+
+  const select = db.prepare<[string], { value: string }>('SELECT value FROM settings WHERE key = ?')
+  const upsert = db.prepare(`
+    INSERT INTO settings (key, value) VALUES (?, ?)
+    ON CONFLICT (key) DO UPDATE SET value = excluded.value
+  `)
+
+  // Carry over the settings of an existing JSON-file install the first time
+  // the table is created.
+  const { count } = db.prepare('SELECT COUNT(*) AS count FROM settings').get() as { count: number }
+  if (count === 0) {
+    db.transaction(() => {
+      const settings = readJsonFileToImport<Record<string, unknown>>(path.join(dataDir, 'settings.json'), {})
+      for (const [key, value] of Object.entries(settings)) {
+        upsert.run(key, JSON.stringify(value))
+      }
+    })()
+  }
+
+  return {
+    async get<T>(key: string) {
+      const row = select.get(key)
+      return row ? (JSON.parse(row.value) as T) : undefined
+    },
+
+    async set(key, value) {
+      upsert.run(key, JSON.stringify(value))
+    },
+  }
+}
@@ -0,0 +1,174 @@
+import path from 'path'
+import type Database from 'better-sqlite3'
+import { getIdentifierKeys } from '../duplicates'
+import { readJsonFileToImport } from './sqlite-database'
+import type { Application, ApplicationStore, CreateCheck } from './types'
+
+type ApplicationRow = { data: string }
+
+const schema = `
+  CREATE TABLE IF NOT EXISTS applications (
+    id TEXT PRIMARY KEY,
+    discord_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    archived INTEGER NOT NULL DEFAULT 0,
+    submitted_at TEXT NOT NULL,
+    updated_at TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_applications_archived ON applications (archived, submitted_at);
+  CREATE INDEX IF NOT EXISTS idx_applications_discord_id ON applications (discord_id);
+  CREATE TABLE IF NOT EXISTS application_identifiers (
+    identifier TEXT NOT NULL,
+    application_id TEXT NOT NULL,
+    PRIMARY KEY (identifier, application_id)
+  ) WITHOUT ROWID;
+`
+
+function toRow(application: Application, archived: boolean) {
+  return {
+    id: application.id,
+    discord_id: application.discord.id,
+    status: application.status ?? 'pending',
+    archived: archived ? 1 : 0,
+    submitted_at: application.timestamp,
+    updated_at: application.updatedAt ?? null,
+    data: JSON.stringify(application),
+  }
+}
+
+export function createSqliteStore(db: Database.Database, dataDir: string): ApplicationStore {
+  db.exec(schema)
+
+  const insert = db.prepare(`
+    INSERT INTO applications (id, discord_id, status, archived, submitted_at, updated_at, data)
+    VALUES (@id, @discord_id, @status, @archived, @submitted_at, @updated_at, @data)
+  `)
+  const update = db.prepare(`
+    UPDATE applications
+    SET discord_id = @discord_id, status = @status, archived = @archived,
+        submitted_at = @submitted_at, updated_at = @updated_at, data = @data
+    WHERE id = @id
+  `)
+  const selectByArchived = db.prepare<[number], ApplicationRow>(
+    'SELECT data FROM applications WHERE archived = ? ORDER BY submitted_at'
+  )
+  const selectByDiscordId = db.prepare<[string], ApplicationRow>(
+    'SELECT data FROM applications WHERE discord_id = ? ORDER BY submitted_at'
+  )
+  const selectById = db.prepare<[string, number], ApplicationRow>(
+    'SELECT data FROM applications WHERE id = ? AND archived = ?'
+  )
+  const countByArchived = db.prepare<[number], { count: number }>(
+    'SELECT COUNT(*) AS count FROM applications WHERE archived = ?'
+  )
+  const insertIdentifier = db.prepare('INSERT OR IGNORE INTO application_identifiers (identifier, application_id) VALUES (?, ?)')
+  const selectByIdentifiers = db.prepare<[string], ApplicationRow>(`
+    SELECT data FROM applications WHERE id IN (
+      SELECT application_id FROM application_identifiers WHERE identifier IN (SELECT value FROM json_each(?))
+    )
+    ORDER BY submitted_at
+  `)
+
+  const insertIdentifiers = (application: Application) => {
+    for (const identifier of getIdentifierKeys(application)) {
+      insertIdentifier.run(identifier, application.id)
+    }
+  }
+
+  // Carry over the records of an existing JSON-file install the first time
+  // the database is created. An application left in both files by an
+  // interrupted archive or unarchive counts as archived, as in the JSON store.
+  const { count } = db.prepare('SELECT COUNT(*) AS count FROM applications').get() as { count: number }
+  if (count === 0) {
+    const archived = readJsonFileToImport<Application[]>(path.join(dataDir, 'archived_applications.json'), [])
+    const archivedIds = new Set(archived.map((application) => application.id))
+    db.transaction(() => {
+      for (const application of archived) {
+        insert.run(toRow(application, true))
+      }
+      for (const application of readJsonFileToImport<Application[]>(path.join(dataDir, 'applications.json'), [])) {
+        if (!archivedIds.has(application.id)) {
+          insert.run(toRow(application, false))
+        }
+      }
+    })()
+  }
+
+  // Identifier keys depend on the configured identifier fields, so they are
+  // indexed anew on every start.
+  db.transaction(() => {
+    db.prepare('DELETE FROM application_identifiers').run()
+    for (const row of db.prepare<[], ApplicationRow>('SELECT data FROM applications').all()) {
+      insertIdentifiers(JSON.parse(row.data))
+    }
+  })()
+
+  const list = (archived: boolean) =>
+    selectByArchived.all(archived ? 1 : 0).map((row) => JSON.parse(row.data) as Application)
+
+  // Applies `updater` to the application with the given id in the `from`
+  // list and stores the result in the `to` list.
+  const updateTransaction = db.transaction(
+    (id: string, from: boolean, to: boolean, updater: (application: Application) => Application) => {
+      const row = selectById.get(id, from ? 1 : 0)
+      if (!row) {
+        return null
+      }
+      const updated = updater(JSON.parse(row.data))
+      update.run(toRow(updated, to))
+      return updated
+    }
+  )
+
+  const createTransaction = db.transaction((application: Application, check?: CreateCheck) => {
+    check?.({
+      pendingCount: countByArchived.get(0)!.count,
+      ownApplications: selectByDiscordId.all(application.discord.id).map((row) => JSON.parse(row.data) as Application),
+    })
+    insert.run(toRow(application, false))
+    insertIdentifiers(application)
+  })
+
+  return {
+    listPending: async () => list(false),
+
+    listArchived: async () => list(true),
+
+    countPending: async () => countByArchived.get(0)!.count,
+
+    async get(id) {
+      const row = selectById.get(id, 0) ?? selectById.get(id, 1)
+      return row ? JSON.parse(row.data) : null
+    },
+
+    listByDiscordId: async (discordId) =>
+      selectByDiscordId.all(discordId).map((row) => JSON.parse(row.data) as Application),
+
+    // An immediate transaction takes the write lock before the check reads,
+    // so another process cannot insert in between.
+    listByIdentifiers: async (keys) =>
+      selectByIdentifiers.all(JSON.stringify(keys)).map((row) => JSON.parse(row.data) as Application),
+
+    async create(application, check) {
+      createTransaction.immediate(application, check)
+      return application
+    },
+
+    async archive(id, updater) {
+      return updateTransaction(id, false, true, updater)
+    },
+
+    async unarchive(id, updater) {
+      return updateTransaction(id, true, false, updater)
+    },
+
+    async updatePending(id, updater) {
+      return updateTransaction(id, false, false, updater)
+    },
+
+    async updateArchived(id, updater) {
+      return updateTransaction(id, true, true, updater)
+    },
+  }
+}
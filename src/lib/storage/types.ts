@@ -0,0 +1,256 @@
+import type { MessageTemplateType } from '../config'
+
+export type DiscordUser = {
+  id: string
+  username: string
+  discriminator: string
+  avatar: string
+  banner: string
+  accentColor: number | null
+  verified: boolean
+  email: string
+  createdAt: string
+}
+
+export type ApplicationStatus = 'pending' | 'approved' | 'denied'
+
+export type StaffMember = {
+  id: string
+  username: string
+}
+
+// The message the bot posted for the application in the staff review channel.
+export type ReviewMessage = {
+  channelId: string
+  messageId: string
+}
+
+// Result of giving an approved applicant their guild roles. 'pending' means
+// the bot will try again once the user joins the guild or the bot reconnects.
+export type RoleAssignment = {
+  status: 'assigned' | 'pending' | 'failed'
+  updatedAt: string
+  error?: string
+}
+
+// One move of an application through the review pipeline.
+export type StageTransition = {
+  from: string
+  to: string
+  by: StaffMember
+  at: string
+  reason?: string
+}
+
+// A reviewer's vote; each reviewer has at most one, replaced when they vote again.
+export type Vote = {
+  reviewer: StaffMember
+  decision: 'approved' | 'denied'
+  comment?: string
+  at: string
+  veto?: boolean
+}
+
+// A reviewer working on an application. Expired claims are ignored.
+export type ApplicationClaim = {
+  by: StaffMember
+  avatar?: string
+  claimedAt: string
+  expiresAt: string
+}
+
+// A private comment by staff, never shown to the applicant. `mentions` holds
+// the usernames @mentioned in the body; `edits` keeps earlier versions.
+export type StaffNote = {
+  id: string
+  author: StaffMember
+  body: string
+  mentions: string[]
+  createdAt: string
+  updatedAt?: string
+  edits?: { body: string; editedAt: string }[]
+}
+
+// A decision that was later reverted by reopening the application.
+export type DecisionRecord = {
+  status: ApplicationStatus
+  statusReason?: string
+  decidedBy?: StaffMember
+  decidedAt?: string
+  votes?: Vote[]
+  reopenedBy: StaffMember
+  reopenedAt: string
+  reopenReason: string
+}
+
+// Another application sharing an identifier, the email or near-identical
+// text with this one, from a different Discord account.
+export type DuplicateMatch = {
+  applicationId: string
+  discord: { id: string; username: string }
+  status: ApplicationStatus
+  // Names of the matching form fields, or 'email'
+  matchedOn: string[]
+}
+
+// A flagging blacklist entry the application matched when it was submitted.
+export type BlacklistMatch = {
+  entryId: string
+  type: BlacklistEntryType
+  // The matched identifier; redacted for staff without viewPii
+  value?: string
+  reason: string
+}
+
+// Form answers are stored at the top level of the record, next to the
+// metadata below, so the keys depend on the sections of its application type.
+export interface Application {
+  id: string
+  timestamp: string
+  discord: DiscordUser
+  // See applicationConfig.applicationTypes; unset means the first type
+  applicationType?: string
+  status?: ApplicationStatus
+  statusReason?: string
+  updatedAt?: string
+  decidedBy?: StaffMember
+  // Current review stage, see applicationConfig.reviewStages
+  stage?: string
+  stageHistory?: StageTransition[]
+  votes?: Vote[]
+  claim?: ApplicationClaim
+  notes?: StaffNote[]
+  decisionHistory?: DecisionRecord[]
+  duplicates?: DuplicateMatch[]
+  blacklistMatches?: BlacklistMatch[]
+  // Set on denial: when the applicant may apply again, or a permanent ban
+  reapplyAfter?: string
+  permanentBan?: boolean
+  reviewMessage?: ReviewMessage
+  roleAssignment?: RoleAssignment
+  notification?: NotificationDelivery
+  [answer: string]: unknown
+}
+
+// pending: waiting for its first attempt; failed: will be retried after
+// `nextAttemptAt`; dead: gave up after the last allowed attempt; cancelled:
+// withdrawn before it was sent, e.g. when a decision was undone.
+export type OutboxMessageState = 'pending' | 'sent' | 'failed' | 'dead' | 'cancelled'
+
+export type DecisionNotification = {
+  // The message template to send: a decision, or a stage such as 'interview'
+  status: MessageTemplateType
+  reason?: string
+  // Values for the message template placeholders, see message-templates.ts
+  variables?: Record<string, string>
+  // Whose templates to render, see applicationConfig.applicationTypes
+  applicationType?: string
+}
+
+export type OutboxMessage = {
+  id: string
+  applicationId?: string
+  userId: string
+  payload: DecisionNotification
+  state: OutboxMessageState
+  attempts: number
+  nextAttemptAt: string
+  lastError?: string
+  createdAt: string
+  updatedAt: string
+  sentAt?: string
+}
+
+// The latest delivery state of the DM sent for an application.
+export type NotificationDelivery = {
+  messageId: string
+  state: OutboxMessageState
+  attempts: number
+  updatedAt: string
+  error?: string
+  // When the message was queued, to tell which of two messages is newer
+  createdAt?: string
+}
+
+export type ApplicationUpdater = (application: Application) => Application
+
+// What `create` passes to its check, read while no other application can be
+// created: the number of pending applications and every application, pending
+// and archived, of the new application's Discord user.
+export type CreateContext = {
+  pendingCount: number
+  ownApplications: Application[]
+}
+
+// Throws to refuse the new application.
+export type CreateCheck = (context: CreateContext) => void
+
+export interface ApplicationStore {
+  listPending(): Promise<Application[]>
+  listArchived(): Promise<Application[]>
+  // The number of pending applications, without loading them.
+  countPending(): Promise<number>
+  // Looks the id up in the pending list first, then in the archive.
+  get(id: string): Promise<Application | null>
+  // Pending and archived applications submitted by the given Discord user.
+  listByDiscordId(discordId: string): Promise<Application[]>
+  // Pending and archived applications with any of the given identifier keys,
+  // as returned by `getIdentifierKeys`.
+  listByIdentifiers(keys: string[]): Promise<Application[]>
+  // Runs `check`, if given, and stores the application unless it throws.
+  // No other application is created in between, so the check cannot race
+  // another submission.
+  create(application: Application, check?: CreateCheck): Promise<Application>
+  // Removes the application from the pending list and stores the result of
+  // `update` in the archive. Resolves to null when no pending application
+  // has the given id.
+  archive(id: string, update: ApplicationUpdater): Promise<Application | null>
+  // Moves an archived application back to the pending list, the reverse of
+  // `archive`. Resolves to null when no archived application has the id.
+  unarchive(id: string, update: ApplicationUpdater): Promise<Application | null>
+  updatePending(id: string, update: ApplicationUpdater): Promise<Application | null>
+  updateArchived(id: string, update: ApplicationUpdater): Promise<Application | null>
+}
+
+export type OutboxMessageUpdater = (message: OutboxMessage) => OutboxMessage
+
+export interface OutboxStore {
+  enqueue(message: OutboxMessage): Promise<OutboxMessage>
+  get(id: string): Promise<OutboxMessage | null>
+  // Messages in the given states, oldest first.
+  list(states: OutboxMessageState[]): Promise<OutboxMessage[]>
+  // Pending and failed messages whose next attempt is due at `now`.
+  listDue(now: Date): Promise<OutboxMessage[]>
+  update(id: string, update: OutboxMessageUpdater): Promise<OutboxMessage | null>
+}
+
+export type BlacklistEntryType = 'discordId' | 'steamId' | 'cfxUsername' | 'emailDomain'
+
+// reject: submissions are refused; flag: accepted, with a warning for staff.
+export type BlacklistAction = 'reject' | 'flag'
+
+// `value` is stored normalized, see blacklist.ts.
+export type BlacklistEntry = {
+  id: string
+  type: BlacklistEntryType
+  value: string
+  reason: string
+  action: BlacklistAction
+  addedBy: StaffMember
+  createdAt: string
+  expiresAt?: string
+}
+
+export interface BlacklistStore {
+  // All entries, expired ones included, newest first.
+  list(): Promise<BlacklistEntry[]>
+  add(entries: BlacklistEntry[]): Promise<void>
+  // Resolves to false when no entry has the id.
+  remove(id: string): Promise<boolean>
+}
+
+// Settings changed from the admin panel, stored as JSON values by key.
+export interface SettingsStore {
+  get<T>(key: string): Promise<T | undefined>
+  set<T>(key: string, value: T): Promise<void>
+}
@@ -0,0 +1,40 @@
+import { applicationConfig } from './config'
+import type { Vote } from './storage/types'
+
+export type VoteTally = {
+  approved: number
+  denied: number
+  total: number
+  quorum: number
+  // The decision the votes add up to, or null while it is still open
+  outcome: 'approved' | 'denied' | null
+  vetoedBy?: Vote['reviewer']
+}
+
+export const isVotingEnabled = () => applicationConfig.voting.enabled
+
+export function getVoteTally(votes: Vote[] = []): VoteTally {
+  const { quorum, threshold, seniorVeto } = applicationConfig.voting
+  const approved = votes.filter((vote) => vote.decision === 'approved').length
+  const denied = votes.length - approved
+  const tally = { approved, denied, total: votes.length, quorum }
+
+  const veto = seniorVeto ? votes.find((vote) => vote.veto && vote.decision === 'denied') : undefined
+  if (veto) {
+    return { ...tally, outcome: 'denied', vetoedBy: veto.reviewer }
+  }
+
+  if (votes.length < quorum) {
+    return { ...tally, outcome: null }
+  }
+  if (approved / votes.length >= threshold) {
+    return { ...tally, outcome: 'approved' }
+  }
+  if (denied / votes.length >= threshold) {
+    return { ...tally, outcome: 'denied' }
+  }
+  return { ...tally, outcome: null }
+}
+
+export const formatVoteTally = (tally: VoteTally) =>
+  `✅ ${tally.approved} · ❌ ${tally.denied} (quorum ${tally.quorum})${tally.vetoedBy ? ` · vetoed by ${tally.vetoedBy.username}` : ''}`
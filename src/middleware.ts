@@ -0,0 +1,16 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { getStaffRole, hasPermission } from '@/lib/permissions'
+
+export async function middleware(req: NextRequest) {
+  const token = await getToken({ req })
+  const role = getStaffRole(token?.discord?.id, token?.guildRoleIds)
+  if (!hasPermission(role, 'viewApplications')) {
+    return NextResponse.redirect(new URL('/', req.url))
+  }
+  return NextResponse.next()
+}
+
+export const config = {
+  matcher: ['/admin/:path*'],
+}
@@ -1,17 +1,32 @@
 import { DefaultSession } from "next-auth"
+import type { StaffRole } from "@/lib/config"
+
+type DiscordProfile = {
+  id: string
+  username: string
+  discriminator: string
+  avatar: string
+  banner: string
+  accentColor: number | null
+  verified: boolean
+  email: string
+  createdAt: string
+}
 
 declare module "next-auth" {
   interface Session {
-    discord: {
-      id: string
-      username: string
-      discriminator: string
-      avatar: string
-      banner: string
-      accentColor: number | null
-      verified: boolean
-      email: string
-      createdAt: string
-    }
+    discord: DiscordProfile
+    staffRole: StaffRole | null
+  }
+}
+
+declare module "next-auth/jwt" {
+  interface JWT {
+    discord?: DiscordProfile
+    discordAccessToken?: string
+    discordRefreshToken?: string
+    discordTokenExpiresAt?: number
+    guildRoleIds?: string[]
+    guildRolesCheckedAt?: number
   }
-}
\ No newline at end of file
+}